@@ -0,0 +1,139 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+
+import { BufferedUIProvider } from './ui/BufferedUIProvider';
+
+type BuildModule = typeof import('./build');
+
+describe('buildAll in JSON mode', () => {
+    const cwd = process.cwd();
+    let dir: string;
+    let build: BuildModule;
+    let ui: BufferedUIProvider;
+    let stdout: string[];
+    let stderr: string[];
+
+    const write = async (filename: string, content: string) => {
+        await fs.mkdir(path.dirname(filename), { recursive: true });
+        await fs.writeFile(filename, content);
+    };
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blueprint-build-'));
+        process.chdir(dir);
+        // Project paths are resolved against the working directory when the modules are loaded
+        jest.resetModules();
+        build = await import('./build');
+
+        ui = new BufferedUIProvider();
+        stdout = [];
+        stderr = [];
+        jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => stdout.push(String(chunk)) > 0);
+        jest.spyOn(process.stderr, 'write').mockImplementation((chunk) => stderr.push(String(chunk)) > 0);
+        jest.spyOn(process, 'exit').mockImplementation((code) => {
+            throw new Error(`Exited with code ${code}`);
+        });
+
+        await write(
+            'wrappers/Main.compile.ts',
+            `export const compile = { lang: 'tolk', entrypoint: 'contracts/main.tolk' };\n`,
+        );
+        await write('contracts/main.tolk', 'fun main() {\n    return y;\n}\n');
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        process.chdir(cwd);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('writes only the reports to stdout', async () => {
+        await expect(build.buildAll(ui, false, { json: true })).rejects.toThrow('Exited with code 1');
+
+        expect(stdout).toHaveLength(1);
+        const report = JSON.parse(stdout[0]);
+        expect(report.contract).toBe('Main');
+        expect(report.success).toBe(false);
+        expect(report.errors[0]).toMatchObject({ file: 'contracts/main.tolk', line: 2 });
+        expect(ui.messages).toEqual([]);
+    });
+
+    it('writes the unused contracts warning to stderr', async () => {
+        await write('contracts/orphan.fc', '() recv_internal() { }\n');
+
+        await expect(build.buildAll(ui, true, { json: true })).rejects.toThrow('Exited with code 1');
+
+        expect(stdout).toEqual([]);
+        expect(ui.messages).toEqual([]);
+        expect(stderr.join('')).toContain('orphan');
+    });
+});
+
+describe('buildAll with several jobs', () => {
+    const cwd = process.cwd();
+    let dir: string;
+    let build: BuildModule;
+    let stdout: string[];
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blueprint-jobs-'));
+        // Workers load ts-node from the project
+        await fs.symlink(path.join(cwd, 'node_modules'), path.join(dir, 'node_modules'), 'dir');
+        process.chdir(dir);
+        jest.resetModules();
+        build = await import('./build');
+
+        stdout = [];
+        jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => stdout.push(String(chunk)) > 0);
+        jest.spyOn(process, 'exit').mockImplementation((code) => {
+            throw new Error(`Exited with code ${code}`);
+        });
+
+        await fs.writeFile(
+            'tsconfig.json',
+            JSON.stringify({
+                compilerOptions: {
+                    target: 'ES2021',
+                    module: 'commonjs',
+                    esModuleInterop: true,
+                    strict: true,
+                    skipLibCheck: true,
+                },
+            }),
+        );
+        await fs.mkdir('wrappers');
+        await fs.mkdir('contracts');
+        // Loading the compile file ends the worker thread
+        await fs.writeFile('wrappers/A.compile.ts', `process.exit(3);\nexport const compile = {};\n`);
+        for (const name of ['B', 'C', 'D', 'E']) {
+            await fs.writeFile(
+                `wrappers/${name}.compile.ts`,
+                `export const compile = { lang: 'tolk', entrypoint: 'contracts/${name}.tolk' };\n`,
+            );
+            await fs.writeFile(`contracts/${name}.tolk`, `fun main() {\n    return ${name.toLowerCase()};\n}\n`);
+        }
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        process.chdir(cwd);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('builds the remaining contracts in a new worker when one crashes', async () => {
+        await expect(build.buildAll(new BufferedUIProvider(), false, { json: true, jobs: 2 })).rejects.toThrow(
+            'Exited with code 1',
+        );
+
+        const reports = stdout.map((line) => JSON.parse(line));
+        expect(reports.map((report) => report.contract).sort()).toEqual(['A', 'B', 'C', 'D', 'E']);
+        for (const report of reports) {
+            if (report.contract === 'A') {
+                expect(report.errors).toEqual([{ message: 'Build worker exited with code 3' }]);
+            } else {
+                expect(report.errors[0]).toMatchObject({ file: `contracts/${report.contract}.tolk`, line: 2 });
+            }
+        }
+    }, 120000);
+});
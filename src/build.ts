@@ -1,8 +1,11 @@
 import path from 'path';
 import fs from 'fs/promises';
 import { existsSync } from 'fs';
+import { inspect } from 'util';
+import { Worker } from 'worker_threads';
 
 import chalk from 'chalk';
+import { Cell } from '@ton/core';
 
 import {
     doCompile,
@@ -12,122 +15,194 @@ import {
 } from './compile/compile';
 import { BUILD_DIR } from './paths';
 import { UIProvider } from './ui/UIProvider';
+import { StderrUIProvider } from './ui/StderrUIProvider';
 import { findCompiles, findContracts } from './utils';
 import { getRootTactConfig } from './config/tact.config';
-
-export async function buildOne(contract: string, ui?: UIProvider) {
+import { isBuildUpToDate, readBuildCache, removeBuildCache, writeBuildCache } from './compile/BuildCache';
+import {
+    BuildReport,
+    createBuildReport,
+    createFailedBuildReport,
+    formatDiagnostic,
+    parseDiagnostics,
+} from './compile/BuildReport';
+import { buildDependencyGraph } from './compile/DependencyGraph';
+import type { BuildTask, BuildTaskResult } from './buildWorker';
+
+export type BuildOpts = {
+    /**
+     * Compiles the contract even if its sources, compiler version and config did not change since the last build.
+     */
+    force?: boolean;
+    /**
+     * Number of contracts compiled concurrently in worker threads by `buildAll` and `buildAllTact`, 1 by default.
+     */
+    jobs?: number;
+    /**
+     * Writes a JSON build report per contract to stdout instead of the build log, and builds all contracts even if
+     * some fail. Other messages are written to stderr, so that stdout only has the reports.
+     */
+    json?: boolean;
+};
+
+/**
+ * Compiles the contract and writes its artifacts, returns the build report. Throws if the compilation fails.
+ */
+export async function compileContract(contract: string, ui?: UIProvider, opts?: BuildOpts): Promise<BuildReport> {
     ui?.write(`Build script running, compiling ${contract}`);
 
     const buildArtifactPath = path.join(BUILD_DIR, `${contract}.compiled.json`);
 
+    ui?.setActionPrompt('⏳ Compiling...');
+    const config = await getCompilerConfigForContract(contract);
+    const compilerOptions = await getCompilerOptions(config);
+    const cacheInput = { lang: compilerOptions.lang, compilerVersion: compilerOptions.version, config };
+    if (!opts?.force && (await isBuildUpToDate(contract, cacheInput))) {
+        ui?.clearActionPrompt();
+        ui?.write(`✅ ${contract} is up to date, skipping compilation`);
+
+        const artifact = JSON.parse(await fs.readFile(buildArtifactPath, 'utf-8'));
+        return createBuildReport({
+            contract,
+            compiled: false,
+            lang: compilerOptions.lang,
+            compilerVersion: compilerOptions.version,
+            code: Cell.fromHex(artifact.hex),
+            artifacts: (await readBuildCache(contract))?.outputs ?? [],
+        });
+    }
+
     try {
         await fs.unlink(buildArtifactPath);
         // eslint-disable-next-line no-empty
     } catch (_) {}
+    await removeBuildCache(contract);
 
-    ui?.setActionPrompt('⏳ Compiling...');
-    try {
-        const config = await getCompilerConfigForContract(contract);
-        const compilerOptions = await getCompilerOptions(config);
-        ui?.write(`🔧 Using ${compilerOptions.lang} version ${compilerOptions.version}...`);
-
-        const result = await doCompile(contract);
-
-        if (result.lang === 'tact') {
-            for (const [k, v] of result.fs) {
-                await fs.mkdir(path.dirname(k), {
-                    recursive: true,
-                });
-                await fs.writeFile(k, v);
-            }
+    ui?.write(`🔧 Using ${compilerOptions.lang} version ${compilerOptions.version}...`);
 
-            if (result.options !== undefined && result.options?.debug === true) {
-                ui?.clearActionPrompt();
-                ui?.write(
-                    '\n⚠️ Make sure to disable debug mode in contract wrappers before doing production deployments!',
-                );
-            }
+    const result = await doCompile(contract);
+
+    if (result.lang === 'tact') {
+        for (const [k, v] of result.fs) {
+            await fs.mkdir(path.dirname(k), {
+                recursive: true,
+            });
+            await fs.writeFile(k, v);
         }
 
-        const cell = result.code;
-        const rHash = cell.hash();
-        const res = {
-            hash: rHash.toString('hex'),
-            hashBase64: rHash.toString('base64'),
-            hex: cell.toBoc().toString('hex'),
-        };
-        ui?.clearActionPrompt();
-        if (result.lang === 'tolk') {
-            ui?.write(`\n${result.stderr}`);
+        if (result.options !== undefined && result.options?.debug === true) {
+            ui?.clearActionPrompt();
+            ui?.write('\n⚠️ Make sure to disable debug mode in contract wrappers before doing production deployments!');
         }
-        ui?.write('\n✅ Compiled successfully!');
+    }
 
-        await fs.mkdir(BUILD_DIR, { recursive: true });
+    const cell = result.code;
+    const rHash = cell.hash();
+    const res = {
+        hash: rHash.toString('hex'),
+        hashBase64: rHash.toString('base64'),
+        hex: cell.toBoc().toString('hex'),
+    };
+    ui?.clearActionPrompt();
+    const warnings = result.lang === 'tolk' ? result.stderr : result.warnings;
+    if (result.lang === 'tolk' || warnings.length > 0) {
+        ui?.write(`\n${warnings}`);
+    }
+    ui?.write('\n✅ Compiled successfully!');
+
+    await fs.mkdir(BUILD_DIR, { recursive: true });
+
+    await fs.writeFile(buildArtifactPath, JSON.stringify(res));
+    const outputs = [buildArtifactPath];
+    if (result.lang === 'func' || result.lang === 'tolk') {
+        const fiftFilepath = path.join(BUILD_DIR, contract, `${contract}.fif`);
+        await fs.mkdir(path.join(BUILD_DIR, contract), { recursive: true });
+        await fs.writeFile(fiftFilepath, result.fiftCode);
+        outputs.push(fiftFilepath);
+    } else {
+        outputs.push(...result.fs.keys());
+    }
 
-        await fs.writeFile(buildArtifactPath, JSON.stringify(res));
-        if (result.lang === 'func' || result.lang === 'tolk') {
-            const fiftFilepath = path.join(BUILD_DIR, contract, `${contract}.fif`);
-            await fs.mkdir(path.join(BUILD_DIR, contract), { recursive: true });
-            await fs.writeFile(fiftFilepath, result.fiftCode);
-        }
+    // Written for contracts that are always rebuilt too, the sources are used to find the contracts affected by a change
+    await writeBuildCache(contract, { ...cacheInput, sources: result.snapshot, outputs });
 
-        // Сначала сообщаем о записи основного артефакта
-        ui?.write(`\n✅ Wrote compilation artifact to ${path.relative(process.cwd(), buildArtifactPath)}`);
+    // Сначала сообщаем о записи основного артефакта
+    ui?.write(`\n✅ Wrote compilation artifact to ${path.relative(process.cwd(), buildArtifactPath)}`);
 
-        // Показываем содержимое директории контракта в виде дерева
-        ui?.write('\n📦 Build artifacts:');
+    // Показываем содержимое директории контракта в виде дерева
+    ui?.write('\n📦 Build artifacts:');
 
-        // Выводим корневой файл .compiled.json
-        ui?.write(`├── 📄 ${path.basename(buildArtifactPath)}`);
+    // Выводим корневой файл .compiled.json
+    ui?.write(`├── 📄 ${path.basename(buildArtifactPath)}`);
 
-        // Затем проверяем и выводим содержимое директории контракта
-        const contractDir = path.join(BUILD_DIR, contract);
-        if (existsSync(contractDir)) {
-            try {
-                const files = await fs.readdir(contractDir);
+    // Затем проверяем и выводим содержимое директории контракта
+    const contractDir = path.join(BUILD_DIR, contract);
+    if (existsSync(contractDir)) {
+        try {
+            const files = await fs.readdir(contractDir);
 
-                // Сортируем файлы для более организованного вывода
-                const sortedFiles = files.sort();
+            // Сортируем файлы для более организованного вывода
+            const sortedFiles = files.sort();
 
-                // Группируем файлы по типу (расширению)
-                const fileGroups: Record<string, string[]> = {};
+            // Группируем файлы по типу (расширению)
+            const fileGroups: Record<string, string[]> = {};
 
-                for (const file of sortedFiles) {
-                    const ext = path.extname(file);
-                    if (!fileGroups[ext]) {
-                        fileGroups[ext] = [];
-                    }
-                    fileGroups[ext].push(file);
+            for (const file of sortedFiles) {
+                const ext = path.extname(file);
+                if (!fileGroups[ext]) {
+                    fileGroups[ext] = [];
                 }
+                fileGroups[ext].push(file);
+            }
 
-                // Выводим директорию контракта
-                ui?.write(`└── 📁 ${contract}/`);
+            // Выводим директорию контракта
+            ui?.write(`└── 📁 ${contract}/`);
 
-                // Выводим файлы по группам
-                const extensions = Object.keys(fileGroups).sort();
-                for (let i = 0; i < extensions.length; i++) {
-                    const ext = extensions[i];
-                    const files = fileGroups[ext];
+            // Выводим файлы по группам
+            const extensions = Object.keys(fileGroups).sort();
+            for (let i = 0; i < extensions.length; i++) {
+                const ext = extensions[i];
+                const files = fileGroups[ext];
 
-                    for (let j = 0; j < files.length; j++) {
-                        const file = files[j];
-                        const isLast = i === extensions.length - 1 && j === files.length - 1;
-                        const prefix = isLast ? '    └── ' : '    ├── ';
+                for (let j = 0; j < files.length; j++) {
+                    const file = files[j];
+                    const isLast = i === extensions.length - 1 && j === files.length - 1;
+                    const prefix = isLast ? '    └── ' : '    ├── ';
 
-                        // Выбираем иконку в зависимости от типа файла
-                        let icon = '📄';
-                        if (ext === '.abi') icon = '📋';
-                        else if (ext === '.code.boc') icon = '📦';
-                        else if (ext === '.ts') icon = '📝';
-                        else if (ext === '.fif') icon = '🔧';
+                    // Выбираем иконку в зависимости от типа файла
+                    let icon = '📄';
+                    if (ext === '.abi') icon = '📋';
+                    else if (ext === '.code.boc') icon = '📦';
+                    else if (ext === '.ts') icon = '📝';
+                    else if (ext === '.fif') icon = '🔧';
 
-                        ui?.write(`${prefix}${icon} ${file}`);
-                    }
+                    ui?.write(`${prefix}${icon} ${file}`);
                 }
-            } catch (_err) {
-                // Игнорируем ошибки чтения директории
             }
+        } catch (_err) {
+            // Игнорируем ошибки чтения директории
         }
+    }
+
+    return createBuildReport({
+        contract,
+        compiled: true,
+        lang: compilerOptions.lang,
+        compilerVersion: compilerOptions.version,
+        code: cell,
+        artifacts: outputs.map((output) => path.relative(process.cwd(), output)),
+        warnings: parseDiagnostics(warnings),
+    });
+}
+
+export async function buildOne(contract: string, ui?: UIProvider, opts?: BuildOpts) {
+    if (opts?.json) {
+        await buildContractsWithReports([contract], ui, opts);
+        return;
+    }
+
+    try {
+        await compileContract(contract, ui, opts);
     } catch (e) {
         if (ui) {
             ui?.clearActionPrompt();
@@ -139,95 +214,191 @@ export async function buildOne(contract: string, ui?: UIProvider) {
     }
 }
 
-async function buildContracts(contracts: string[], ui?: UIProvider) {
+function failBuild(failures: BuildReport[], ui?: UIProvider) {
+    if (failures.length === 0) {
+        return;
+    }
+    if (ui) {
+        process.exit(1);
+    }
+    throw new Error(
+        failures.map((report) => `${report.contract}: ${report.errors.map(formatDiagnostic).join('\n')}`).join('\n'),
+    );
+}
+
+function writeReport(report: BuildReport) {
+    process.stdout.write(JSON.stringify(report) + '\n');
+}
+
+/**
+ * Builds the contracts one by one, continuing after failures, and writes the report of each as a line of JSON.
+ */
+async function buildContractsWithReports(contracts: string[], ui?: UIProvider, opts?: BuildOpts) {
+    const failures: BuildReport[] = [];
     for (const contract of contracts) {
-        await buildOne(contract, ui);
+        let report: BuildReport;
+        try {
+            report = await compileContract(contract, undefined, opts);
+        } catch (e) {
+            report = createFailedBuildReport(contract, e);
+        }
+
+        writeReport(report);
+        if (!report.success) {
+            failures.push(report);
+        }
+    }
+
+    failBuild(failures, ui);
+}
+
+function startBuildWorker(): Worker {
+    // Workers load the .compile.ts files, and the worker itself when Blueprint runs from sources, with ts-node
+    const workerPath = path.join(__dirname, 'buildWorker');
+    return new Worker(`require('ts-node/register'); require(${JSON.stringify(workerPath)});`, { eval: true });
+}
+
+/**
+ * Runs the task in the worker. `crashed` is set if the worker failed or exited instead of answering,
+ * it cannot run other tasks then.
+ */
+function runBuildTask(worker: Worker, task: BuildTask): Promise<{ result: BuildTaskResult; crashed: boolean }> {
+    return new Promise((resolve) => {
+        const finish = (result: BuildTaskResult, crashed: boolean) => {
+            worker.off('message', onMessage);
+            worker.off('error', onError);
+            worker.off('exit', onExit);
+            resolve({ result, crashed });
+        };
+        const onMessage = (result: BuildTaskResult) => finish(result, false);
+        const fail = (error: string) =>
+            finish({ output: [], error, report: createFailedBuildReport(task.contract, error) }, true);
+        // Errors thrown while loading the worker, such as TypeScript errors, are not always `Error` instances
+        const onError = (e: unknown) => fail(e instanceof Error ? e.toString() : inspect(e));
+        const onExit = (code: number) => fail(`Build worker exited with code ${code}`);
+
+        worker.on('message', onMessage);
+        worker.on('error', onError);
+        worker.on('exit', onExit);
+        worker.postMessage(task);
+    });
+}
+
+/**
+ * Compiles the contracts in a pool of worker threads. The output of every contract is written at once when
+ * its build finishes, after the first failure the remaining contracts are not started unless JSON reports are written.
+ */
+async function buildContractsInParallel(contracts: string[], jobs: number, ui?: UIProvider, opts?: BuildOpts) {
+    const queue = [...contracts];
+    const failures: BuildReport[] = [];
+    // The action prompt would be mixed with the JSON reports
+    const progress = opts?.json ? undefined : ui;
+    let finished = 0;
+
+    progress?.setActionPrompt(`⏳ Compiling ${contracts.length} contracts with ${jobs} jobs...`);
+    const runWorker = async () => {
+        let worker = startBuildWorker();
+        try {
+            for (let contract = queue.shift(); contract !== undefined; contract = queue.shift()) {
+                const { result, crashed } = await runBuildTask(worker, { contract, force: opts?.force });
+                const { output, error, report } = result;
+                finished++;
+
+                if (opts?.json) {
+                    writeReport(report);
+                    if (!report.success) {
+                        failures.push(report);
+                    }
+                    if (crashed) {
+                        // The remaining contracts are built in a new worker
+                        await worker.terminate();
+                        worker = startBuildWorker();
+                    }
+                    continue;
+                }
+
+                ui?.clearActionPrompt();
+                for (const message of output) {
+                    ui?.write(message);
+                }
+                if (error !== undefined) {
+                    ui?.write(error);
+                    failures.push(report);
+                    queue.length = 0;
+                    break;
+                }
+                ui?.setActionPrompt(`⏳ Compiling... ${finished}/${contracts.length} done`);
+            }
+        } finally {
+            await worker.terminate();
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(jobs, contracts.length) }, runWorker));
+    progress?.clearActionPrompt();
+
+    failBuild(failures, ui);
+}
+
+async function buildContracts(contracts: string[], ui?: UIProvider, opts?: BuildOpts) {
+    const jobs = opts?.jobs ?? 1;
+    if (!Number.isInteger(jobs) || jobs < 1) {
+        throw new Error(`Invalid number of jobs: ${jobs}`);
+    }
+    if (jobs > 1 && contracts.length > 1) {
+        await buildContractsInParallel(contracts, jobs, ui, opts);
+        return;
+    }
+    if (opts?.json) {
+        await buildContractsWithReports(contracts, ui, opts);
+        return;
+    }
+
+    for (const contract of contracts) {
+        await buildOne(contract, ui, opts);
     }
 }
 
-export async function buildAll(ui?: UIProvider, checkUnused: boolean = false) {
+export async function buildAll(ui?: UIProvider, checkUnused: boolean = false, opts?: BuildOpts) {
     const contracts = await findContracts();
+    const log = opts?.json && ui ? new StderrUIProvider(ui) : ui;
 
     if (checkUnused) {
         // Проверка на наличие неиспользуемых контрактов
-        const configuredContracts = await findContracts();
         const contractsDir = path.join(process.cwd(), 'contracts');
 
         if (existsSync(contractsDir)) {
             const files = await fs.readdir(contractsDir, { withFileTypes: true });
 
             // Получаем все файлы контрактов в директории contracts
-            const contractFiles = files
+            const contractFiles = files.filter(
+                (file) =>
+                    file.isFile() &&
+                    (file.name.endsWith('.fc') || file.name.endsWith('.tact') || file.name.endsWith('.tolk')),
+            );
+
+            // A file is used if a contract imports it, directly or through other files, or is named after it
+            const graph = await buildDependencyGraph(contracts);
+            const usedFiles = new Set(graph.contracts.flatMap((contract) => contract.files));
+            const contractsLower = contracts.map((c) => c.toLowerCase());
+
+            const unusedContracts = contractFiles
                 .filter(
                     (file) =>
-                        file.isFile() &&
-                        (file.name.endsWith('.fc') || file.name.endsWith('.tact') || file.name.endsWith('.tolk')),
+                        !usedFiles.has(path.relative(process.cwd(), path.join(contractsDir, file.name))) &&
+                        !contractsLower.includes(path.basename(file.name, path.extname(file.name)).toLowerCase()),
                 )
                 .map((file) => path.basename(file.name, path.extname(file.name)));
 
-            // Проверяем импорты в тактовых контрактах
-            const importedContracts = new Set<string>();
-
-            // Получаем все пути к контрактам из tact.config.json
-            const tactConfig = getRootTactConfig();
-            const configuredPaths = new Set<string>();
-
-            // Добавляем пути из конфигурации tact
-            for (const project of tactConfig.projects) {
-                if (project.path) {
-                    // Нормализуем путь и извлекаем имя файла без расширения
-                    const normalizedPath = path.normalize(project.path);
-                    const fileName = path.basename(normalizedPath, path.extname(normalizedPath));
-                    configuredPaths.add(fileName.toLowerCase());
-                }
-            }
-
-            for (const configuredContract of configuredContracts) {
-                // Проверяем только для контрактов Tact
-                const tactConfigProjects = getRootTactConfig().projects;
-                const project = tactConfigProjects.find(
-                    (p) => p.name.toLowerCase() === configuredContract.toLowerCase(),
-                );
-
-                if (project && existsSync(project.path)) {
-                    try {
-                        const content = await fs.readFile(project.path, 'utf-8');
-                        // Ищем импорты вида import "./contract.tact"; или import "./contract";
-                        const importRegex = /import\s+["']\.\/([\w_-]+)(?:\.tact)?[""];/g;
-                        let match;
-
-                        while ((match = importRegex.exec(content)) !== null) {
-                            const importedContract = match[1];
-                            importedContracts.add(importedContract.toLowerCase());
-                        }
-                    } catch (_e) {
-                        // Игнорируем ошибки чтения файла
-                    }
-                }
-            }
-
-            // Преобразуем имена контрактов к нижнему регистру для регистронезависимого сравнения
-            const configuredContractsLower = configuredContracts.map((c) => c.toLowerCase());
-
-            const unusedContracts = contractFiles.filter((contract) => {
-                const contractLower = contract.toLowerCase();
-                return (
-                    !configuredContractsLower.includes(contractLower) &&
-                    !importedContracts.has(contractLower) &&
-                    !configuredPaths.has(contractLower)
-                );
-            });
-
             if (unusedContracts.length > 0) {
-                ui?.write(chalk.red('\n❌ Error: The following contracts are not properly configured:'));
+                log?.write(chalk.red('\n❌ Error: The following contracts are not properly configured:'));
                 for (const contract of unusedContracts) {
-                    ui?.write(chalk.red(`  - ${contract}`));
+                    log?.write(chalk.red(`  - ${contract}`));
                 }
-                ui?.write(chalk.red('\nYou should either:'));
-                ui?.write(chalk.red('  1. Add them to tact.config.json (for Tact contracts)'));
-                ui?.write(chalk.red('  2. Create a .compile.ts file for them (for other languages)'));
-                ui?.write(chalk.red('  3. Remove them if they are not needed'));
-                ui?.write('');
+                log?.write(chalk.red('\nYou should either:'));
+                log?.write(chalk.red('  1. Add them to tact.config.json (for Tact contracts)'));
+                log?.write(chalk.red('  2. Create a .compile.ts file for them (for other languages)'));
+                log?.write(chalk.red('  3. Remove them if they are not needed'));
+                log?.write('');
 
                 // Завершаем процесс с ошибкой
                 process.exit(1);
@@ -235,10 +406,10 @@ export async function buildAll(ui?: UIProvider, checkUnused: boolean = false) {
         }
     }
 
-    await buildContracts(contracts, ui);
+    await buildContracts(contracts, ui, opts);
 }
 
-export async function buildAllTact(ui?: UIProvider) {
+export async function buildAllTact(ui?: UIProvider, opts?: BuildOpts) {
     const legacyTactContract = (await findCompiles())
         .filter((file) => extractCompilableConfig(file.path).lang === 'tact')
         .map((file) => file.name);
@@ -246,5 +417,5 @@ export async function buildAllTact(ui?: UIProvider) {
     const tactConfig = getRootTactConfig();
     const tactContracts = [...legacyTactContract, ...tactConfig.projects.map((project) => project.name)];
 
-    await buildContracts(tactContracts, ui);
+    await buildContracts(tactContracts, ui, opts);
 }
@@ -0,0 +1,38 @@
+import { parentPort } from 'worker_threads';
+
+import { compileContract } from './build';
+import { BufferedUIProvider } from './ui/BufferedUIProvider';
+import { BuildReport, createFailedBuildReport } from './compile/BuildReport';
+
+export type BuildTask = {
+    contract: string;
+    force?: boolean;
+};
+
+export type BuildTaskResult = {
+    /**
+     * Messages written by the build, sent back at once so that the logs of concurrent builds don't interleave.
+     */
+    output: string[];
+    /**
+     * The error as it is printed by `buildOne`, if the build failed.
+     */
+    error?: string;
+    report: BuildReport;
+};
+
+parentPort?.on('message', async (task: BuildTask) => {
+    const ui = new BufferedUIProvider();
+    let result: BuildTaskResult;
+    try {
+        result = { output: ui.messages, report: await compileContract(task.contract, ui, { force: task.force }) };
+    } catch (e) {
+        result = {
+            output: ui.messages,
+            error: (e as Error).toString(),
+            report: createFailedBuildReport(task.contract, e),
+        };
+    }
+
+    parentPort?.postMessage(result);
+});
@@ -5,6 +5,7 @@ import { Args, Runner, RunnerContext } from './Runner';
 import { runners } from './actionRunners';
 import { findScripts, selectFile } from '../utils';
 import { createNetworkProvider } from '../network/createNetworkProvider';
+import { runWithSandboxState } from '../network/sandbox/state';
 
 export const action: Runner = async (args: Args, ui: UIProvider, context: RunnerContext) => {
     // Проверяем, есть ли аргументы после 'action'
@@ -61,7 +62,7 @@ export const action: Runner = async (args: Args, ui: UIProvider, context: Runner
                 const scriptArgs = args._.slice(3);
 
                 try {
-                    await mod.run(networkProvider, scriptArgs);
+                    await runWithSandboxState(networkProvider, () => mod.run(networkProvider, scriptArgs));
                     ui.write(chalk.green(`Script ${finalScriptName} executed successfully.`));
                 } catch (e) {
                     ui.write(
@@ -8,6 +8,8 @@ import { convert } from './convert';
 import { help } from './help';
 import { pack } from './pack';
 import { snapshot } from './snapshot';
+import { sandbox } from './sandbox';
+import { deployments } from './deployments';
 import { rename } from './rename';
 import { Runner } from './Runner';
 
@@ -24,4 +26,6 @@ export const runners: Record<string, Runner> = {
     rename,
     pack,
     snapshot,
+    sandbox,
+    deployments,
 };
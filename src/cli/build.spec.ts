@@ -0,0 +1,35 @@
+import { build } from './build';
+import { Args } from './Runner';
+import { BufferedUIProvider } from '../ui/BufferedUIProvider';
+
+describe('build command', () => {
+    const argv = process.argv;
+    let stdout: string[];
+    let stderr: string[];
+
+    beforeEach(() => {
+        stdout = [];
+        stderr = [];
+        jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => stdout.push(String(chunk)) > 0);
+        jest.spyOn(process.stderr, 'write').mockImplementation((chunk) => stderr.push(String(chunk)) > 0);
+        jest.spyOn(process, 'exit').mockImplementation((code) => {
+            throw new Error(`Exited with code ${code}`);
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        process.argv = argv;
+    });
+
+    it('requires a contract name or --all with --json', async () => {
+        process.argv = ['node', 'blueprint', 'build', '--json'];
+        const ui = new BufferedUIProvider();
+
+        await expect(build({ _: ['build'] } as Args, ui, {})).rejects.toThrow('Exited with code 1');
+
+        expect(stdout).toEqual([]);
+        expect(ui.messages).toEqual([]);
+        expect(stderr.join('')).toContain('Pass a contract name or --all');
+    });
+});
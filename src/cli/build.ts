@@ -3,7 +3,9 @@ import chalk from 'chalk';
 
 import { findContracts, selectOption } from '../utils';
 import { UIProvider } from '../ui/UIProvider';
+import { StderrUIProvider } from '../ui/StderrUIProvider';
 import { buildAll, buildOne } from '../build';
+import { watchContracts } from '../watch';
 import { helpArgs, helpMessages } from './constants';
 import { Args, extractFirstArg, Runner } from './Runner';
 
@@ -62,6 +64,10 @@ export async function selectContract(
 export const build: Runner = async (args: Args, ui: UIProvider) => {
     const localArgs = arg({
         '--all': Boolean,
+        '--force': Boolean,
+        '--jobs': Number,
+        '--watch': Boolean,
+        '--json': Boolean,
         ...helpArgs,
     });
     if (localArgs['--help']) {
@@ -69,28 +75,44 @@ export const build: Runner = async (args: Args, ui: UIProvider) => {
         return;
     }
 
+    const buildOpts = { force: localArgs['--force'], jobs: localArgs['--jobs'], json: localArgs['--json'] };
+    // Only the reports are written to stdout in JSON mode
+    const output = buildOpts.json ? new StderrUIProvider(ui) : ui;
+
+    if (localArgs['--watch']) {
+        await watchContracts(output, buildOpts);
+        return;
+    }
+
     if (localArgs['--all']) {
-        ui.write(chalk.gray('Running build for all contracts...'));
-        await buildAll(ui, true);
-        ui.write(chalk.magentaBright('[build.ts] buildAll finished.'));
+        output.write(chalk.gray('Running build for all contracts...'));
+        await buildAll(output, true, buildOpts);
+        output.write(chalk.magentaBright('[build.ts] buildAll finished.'));
     } else {
-        const selected = await selectContract(ui, extractFirstArg(args), true);
+        const hint = extractFirstArg(args);
+        if (buildOpts.json && hint === undefined) {
+            // The contract cannot be chosen interactively, the prompt would be written to stdout
+            output.write(chalk.redBright('Pass a contract name or --all to build with --json'));
+            process.exit(1);
+        }
+
+        const selected = await selectContract(output, hint, true);
 
         if (typeof selected === 'string') {
             const contractName = selected;
             try {
-                await buildOne(contractName, ui);
-                ui.write(chalk.gray(`Build for ${contractName} successful.`));
+                await buildOne(contractName, output, buildOpts);
+                output.write(chalk.gray(`Build for ${contractName} successful.`));
             } catch (e) {
-                ui.write(
+                output.write(
                     chalk.redBright(`Error during build execution for ${contractName}: ${(e as Error).message || e}`),
                 );
                 process.exit(1);
             }
         } else {
-            ui.write(chalk.gray('Running build for all contracts (selected interactively)...'));
-            await buildAll(ui);
-            ui.write(chalk.magentaBright('[build.ts] buildAll (interactive) finished.'));
+            output.write(chalk.gray('Running build for all contracts (selected interactively)...'));
+            await buildAll(output, false, buildOpts);
+            output.write(chalk.magentaBright('[build.ts] buildAll (interactive) finished.'));
         }
     }
 };
@@ -10,6 +10,8 @@ import chalk from 'chalk';
 dotenv.config();
 
 import { snapshot } from './snapshot';
+import { sandbox } from './sandbox';
+import { deployments } from './deployments';
 import { create } from './create';
 import { run } from './run';
 import { build } from './build';
@@ -27,6 +29,8 @@ import { rename } from './rename';
 import * as _pkgManagerService from '../pkgManager/service';
 import { UIProvider } from '../ui/UIProvider';
 import { action } from './action';
+import { wallet } from './wallet';
+import { graph } from './graph';
 
 // Импортируем команды и действия отдельно
 const commands: Record<string, Runner> = {
@@ -41,6 +45,10 @@ const commands: Record<string, Runner> = {
     rename,
     pack,
     snapshot,
+    sandbox,
+    deployments,
+    wallet,
+    graph,
     action, // Добавляем новую команду action
 };
 
@@ -41,6 +41,10 @@ const availableCommands = [
     'rename',
     'pack',
     'snapshot',
+    'sandbox',
+    'deployments',
+    'wallet',
+    'graph',
 ];
 
 export const helpMessages = {
@@ -74,11 +78,20 @@ Script name is matched (ignoring case) to a file in the scripts directory. If no
 
 ${chalk.bold('Flags:')}
 ${chalk.cyan('--mainnet')}, ${chalk.cyan('--testnet')} - specifies the network to use when running the script. If not specified on the command line, it will be asked interactively.
+${chalk.cyan('--sandbox')} - runs the script against a local in-process ${chalk.green('@ton/sandbox')} blockchain, sending from its treasury wallet.
 ${chalk.cyan('--custom')} [api-endpoint] - indicates that a custom API should be used when running the script, and the API URL optionally. (example: https://testnet.toncenter.com/api/v2/)
 ${chalk.cyan('--custom-version')} - specifies the API version to use with the custom API. Options: v2 (default), v4.
 ${chalk.cyan('--custom-key')} - specifies the API key to use with the custom API, can only be used with API v2.
 ${chalk.cyan('--custom-type')} - specifies the network type to be indicated to scripts. Options: custom (default), mainnet, testnet.
+${chalk.cyan('--liteserver')} - connects to mainnet or testnet through liteservers from the ton.org global config instead of toncenter.
+${chalk.cyan('--liteserver-config')} <path|url> - uses liteservers from a local global config file or URL, implies ${chalk.cyan('--liteserver')}.
+${chalk.cyan('--liteserver-index')} <i,j,...> - connects only to the liteservers with the given indices in the config. Also works with ${chalk.cyan('--custom-version liteclient')}.
 ${chalk.cyan('--tonconnect')}, ${chalk.cyan('--deeplink')}, ${chalk.cyan('--mnemonic')} - specifies the deployer to use when running the script. If not specified on the command line, it will be asked interactively.
+${chalk.cyan('--wallet-version')} <version>, ${chalk.cyan('--workchain')} <0|-1>, ${chalk.cyan('--subwallet')} <n> - choose the wallet of the mnemonic deployer or the external signer, overriding the ${chalk.cyan('wallet')} config section and the env variables.
+${chalk.cyan('--key')} <name> - uses the mnemonic deployer with a key from the keystore (see ${chalk.cyan('blueprint help wallet')}), asking for its passphrase.
+${chalk.cyan('--yes')} - sends transactions without asking for confirmation. By default, the estimated fees of every send are shown and have to be confirmed; sends fail without a terminal or when CI is set.
+${chalk.cyan('--signer')} <command|url> - signs wallet transfers with an external signer command or HTTP endpoint instead of a mnemonic (see README).
+${chalk.cyan('--multisig')} <address> - sends every transaction as a new order of the multisig-v2 wallet at the address, created by the chosen deployer wallet.
 ${chalk.cyan('--tonscan')}, ${chalk.cyan('--tonviewer')}, ${chalk.cyan('--toncx')}, ${chalk.cyan('--dton')} - specifies the network explorer to use when displaying links to the deployed contracts. Default: tonviewer.
 
 ${chalk.bold('Arguments:')}
@@ -86,6 +99,11 @@ Any arguments after the flags will be passed directly to your script as an array
 
 ${chalk.bold('Examples:')}
 blueprint run deployCounter --testnet --tonconnect
+blueprint run deployCounter --sandbox
+blueprint run deployCounter --mainnet --mnemonic --yes
+blueprint run deployCounter --testnet --signer "node ./signer.js"
+blueprint run deployCounter --mainnet --mnemonic --workchain -1 --subwallet 1
+blueprint run deployCounter --mainnet --liteserver-config ./liteservers.json --liteserver-index 0 --mnemonic
 blueprint run incrementCounter --testnet --tonconnect EQCDLPZ_cb-xUpCC3DqkM2s_HdfOKyxTih2_xMXiD5j5AJ7f 0.05 1`,
 
     build: `${chalk.bold('Usage:')} blueprint ${chalk.cyan('build')} ${chalk.yellow('[contract name]')} ${chalk.gray('[flags]')}
@@ -93,7 +111,11 @@ blueprint run incrementCounter --testnet --tonconnect EQCDLPZ_cb-xUpCC3DqkM2s_Hd
 Builds the specified contract according to the respective .compile.ts file. For Tact contracts, all generated files will be placed in the ${chalk.cyan('build/<contract name>')} folder.
 
 ${chalk.bold('Flags:')}
-${chalk.cyan('--all')} - builds all available contracts.`,
+${chalk.cyan('--all')} - builds all available contracts.
+${chalk.cyan('--force')} - rebuilds contracts even if their sources, compiler version and config did not change since the last build.
+${chalk.cyan('--jobs')} <${chalk.yellow('count')}> - compiles up to ${chalk.yellow('count')} contracts concurrently in worker threads when building all contracts, 1 by default.
+${chalk.cyan('--watch')} - builds all contracts, then watches ${chalk.cyan('contracts/')}, the compilables directory and ${chalk.cyan('tact.config.json')} and rebuilds the contracts affected by every change.
+${chalk.cyan('--json')} - prints a single-line JSON report per contract (lang, compiler version, code hash, BOC size, cell count, artifacts, warnings and errors) to stdout instead of the build log, writes other messages to stderr, builds all contracts even if some fail and exits with a non-zero status if any failed. Requires a contract name or --all.`,
 
     set: `${chalk.bold('Usage:')} blueprint ${chalk.cyan('set')} <${chalk.yellow('key')}> [${chalk.yellow('value')}]
 
@@ -141,4 +163,70 @@ Run with gas usage and cells' sizes collected and write a new snapshot
 
 ${chalk.bold('SEE ALSO')}
   ${chalk.cyan('blueprint test --gas-report')}`,
+
+    sandbox: `${chalk.bold('Usage:')} blueprint ${chalk.cyan('sandbox')} <${chalk.yellow('reset|save|load')}> [${chalk.yellow('name')}]
+
+Manages the local sandbox blockchain used by ${chalk.cyan('blueprint run --sandbox')}. Its state is saved after every successfully executed script and restored on the next run.
+
+${chalk.bold('Subcommands:')}
+- ${chalk.cyan('reset')} - discards the saved state, the next run starts from an empty blockchain.
+- ${chalk.cyan('save')} <${chalk.yellow('name')}> - saves the current state as a named snapshot.
+- ${chalk.cyan('load')} <${chalk.yellow('name')}> - replaces the current state with a named snapshot.`,
+
+    deployments: `${chalk.bold('Usage:')} blueprint ${chalk.cyan('deployments')} <${chalk.yellow('list|show|check')}> [${chalk.yellow('contract name')}] ${chalk.gray('[flags]')}
+
+Inspects the contracts recorded in ${chalk.cyan('deployments/<network>.json')} by ${chalk.cyan('waitForDeploy')}.
+
+${chalk.bold('Subcommands:')}
+- ${chalk.cyan('list')} - lists recorded deployments (default).
+- ${chalk.cyan('show')} <${chalk.yellow('contract name')}> - shows all recorded deployments of a contract.
+- ${chalk.cyan('check')} [${chalk.yellow('contract name')}] - fetches the live code of the latest deployment of each contract (or only the given one) and compares its hash with ${chalk.cyan('build/<contract name>.compiled.json')}. Fails if any of them differ. No wallet is needed.
+
+${chalk.bold('Flags:')}
+${chalk.cyan('--mainnet')}, ${chalk.cyan('--testnet')}, ${chalk.cyan('--sandbox')}, ${chalk.cyan('--custom')} [api-endpoint] - selects the network. ${chalk.cyan('list')} and ${chalk.cyan('show')} cover all networks if not specified, ${chalk.cyan('check')} asks interactively.
+${chalk.cyan('--custom-version')}, ${chalk.cyan('--custom-key')}, ${chalk.cyan('--custom-type')} - same as for ${chalk.cyan('blueprint run')}.
+
+${chalk.bold('Examples:')}
+blueprint deployments list --testnet
+blueprint deployments show Counter
+blueprint deployments check --mainnet`,
+
+    wallet: `${chalk.bold('Usage:')} blueprint ${chalk.cyan('wallet')} <${chalk.yellow('add|list|remove|export|address|balance|transactions|transfer')}> [${chalk.yellow('args')}] ${chalk.gray('[flags]')}
+
+Manages the keystore of wallet mnemonics encrypted with a passphrase, used by the mnemonic deployer instead of the ${chalk.cyan('WALLET_MNEMONIC')} env variable. Project keys are stored in ${chalk.cyan('temp/keystore')}, global keys in ${chalk.cyan('~/.blueprint/keystore')}.
+Also inspects and uses the deployer wallet, connected the same way as in ${chalk.cyan('blueprint run')}.
+
+${chalk.bold('Subcommands:')}
+- ${chalk.cyan('add')} <${chalk.yellow('key name')}> - encrypts an existing mnemonic, or a newly generated one, and adds it to the keystore.
+- ${chalk.cyan('list')} - lists the keys of the project and global keystores (default).
+- ${chalk.cyan('remove')} <${chalk.yellow('key name')}> - removes a key after confirmation.
+- ${chalk.cyan('export')} <${chalk.yellow('key name')}> - asks for the passphrase and prints the mnemonic of a key.
+- ${chalk.cyan('address')} - shows the deployer wallet address in raw, bounceable and non-bounceable formats.
+- ${chalk.cyan('balance')} - shows the balance, state and seqno of the deployer wallet.
+- ${chalk.cyan('transactions')} [${chalk.yellow('count')}] - shows the last transactions of the deployer wallet, 10 by default.
+- ${chalk.cyan('transfer')} <${chalk.yellow('to')}> <${chalk.yellow('amount')}> [${chalk.yellow('comment')}] - sends TON from the deployer wallet. The bounce flag follows the destination address format.
+
+${chalk.bold('Flags:')}
+${chalk.cyan('--global')} - uses the global keystore. Without it, ${chalk.cyan('add')} uses the project keystore, ${chalk.cyan('remove')} and ${chalk.cyan('export')} look in the project keystore first.
+${chalk.cyan('--mainnet')}, ${chalk.cyan('--testnet')}, ${chalk.cyan('--mnemonic')}, ${chalk.cyan('--key')}, etc. - choose the network and the deployer wallet, same as for ${chalk.cyan('blueprint run')}.
+
+${chalk.bold('Examples:')}
+blueprint wallet add deployer
+blueprint wallet add treasury --global
+blueprint wallet list
+blueprint run deployCounter --testnet --key deployer
+blueprint wallet balance --testnet --key deployer
+blueprint wallet transfer UQAHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHBwcHByQu 1.5 "test payment" --testnet --tonconnect`,
+
+    graph: `${chalk.bold('Usage:')} blueprint ${chalk.cyan('graph')} ${chalk.gray('[flags]')}
+
+Prints the files each contract depends on: the entrypoints from its config and all files they import through FunC ${chalk.cyan('#include')}, Tolk and Tact ${chalk.cyan('import')} statements, followed by the files shared by several contracts. A change of a file rebuilds all contracts that depend on it in ${chalk.cyan('blueprint build --watch')}.
+
+${chalk.bold('Flags:')}
+${chalk.cyan('--json')} - prints the graph as JSON.
+${chalk.cyan('--dot')} - prints the graph in the Graphviz DOT format.
+
+${chalk.bold('Examples:')}
+blueprint graph
+blueprint graph --dot | dot -Tsvg > graph.svg`,
 };
@@ -0,0 +1,163 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+
+import arg from 'arg';
+import chalk from 'chalk';
+import { Cell } from '@ton/core';
+
+import { Args, extractSecondArg, Runner, RunnerContext } from './Runner';
+import { helpArgs, helpMessages } from './constants';
+import { UIProvider } from '../ui/UIProvider';
+import { argSpec, createNetworkProvider } from '../network/createNetworkProvider';
+import { Deployment, DeploymentRegistry } from '../network/deployments/DeploymentRegistry';
+import { Network } from '../network/Network';
+import { BUILD_DIR } from '../paths';
+import { oneOrZeroOf } from '../utils';
+
+const networks: Network[] = ['mainnet', 'testnet', 'custom', 'sandbox'];
+
+function selectedNetworks(args: arg.Result<typeof argSpec>): Network[] {
+    const network = oneOrZeroOf({
+        mainnet: args['--mainnet'],
+        testnet: args['--testnet'],
+        sandbox: args['--sandbox'],
+        custom: args['--custom'] !== undefined,
+    });
+    const candidates = network === undefined ? networks : [network];
+
+    return candidates.filter((n) => existsSync(new DeploymentRegistry(n).path()));
+}
+
+function formatDeployment(deployment: Deployment): string {
+    return `${chalk.green(deployment.name)} ${deployment.address.toString({ testOnly: deployment.network !== 'mainnet' })} ${chalk.gray(deployment.deployedAt.toISOString())}`;
+}
+
+async function readBuildCodeHash(name: string): Promise<string | undefined> {
+    const artifactPath = path.join(BUILD_DIR, `${name}.compiled.json`);
+    if (!existsSync(artifactPath)) {
+        return undefined;
+    }
+
+    return JSON.parse(await fs.readFile(artifactPath, 'utf-8')).hash;
+}
+
+function latestDeployments(deployments: Deployment[]): Deployment[] {
+    const latest = new Map<string, Deployment>();
+    for (const deployment of deployments) {
+        latest.set(deployment.name, deployment);
+    }
+
+    return [...latest.values()];
+}
+
+async function list(args: arg.Result<typeof argSpec>, ui: UIProvider) {
+    const found = selectedNetworks(args);
+    if (found.length === 0) {
+        ui.write('No deployments recorded yet');
+        return;
+    }
+
+    for (const network of found) {
+        ui.write(chalk.bold(`${network}:`));
+        for (const deployment of await new DeploymentRegistry(network).list()) {
+            ui.write(`  ${formatDeployment(deployment)}`);
+        }
+    }
+}
+
+async function show(args: arg.Result<typeof argSpec>, ui: UIProvider) {
+    const name = extractSecondArg(args);
+    if (name === undefined) {
+        throw new Error('Please pass a contract name');
+    }
+
+    let shown = false;
+    for (const network of selectedNetworks(args)) {
+        for (const deployment of await new DeploymentRegistry(network).getAll(name)) {
+            ui.write(`${chalk.bold(deployment.name)} on ${deployment.network}
+  Address:     ${deployment.address.toString({ testOnly: deployment.network !== 'mainnet' })}
+  Code hash:   ${deployment.codeHash}
+  Data hash:   ${deployment.dataHash}
+  Tx hash:     ${deployment.txHash ?? 'unknown'}
+  Deployed at: ${deployment.deployedAt.toISOString()}`);
+            shown = true;
+        }
+    }
+
+    if (!shown) {
+        throw new Error(`No deployments of ${name} found`);
+    }
+}
+
+async function check(args: arg.Result<typeof argSpec>, ui: UIProvider, context: RunnerContext) {
+    const name = extractSecondArg(args);
+    const provider = await createNetworkProvider(ui, args, context.config, true, false);
+
+    let deployments = latestDeployments(await provider.deployments().list());
+    if (name !== undefined) {
+        deployments = deployments.filter((deployment) => deployment.name === name);
+    }
+    if (deployments.length === 0) {
+        throw new Error(`No deployments${name === undefined ? '' : ` of ${name}`} recorded for ${provider.network()}`);
+    }
+
+    let failed = 0;
+    for (const deployment of deployments) {
+        const title = `${deployment.name} (${deployment.address.toString({ testOnly: deployment.network !== 'mainnet' })})`;
+        const state = await provider.getContractState(deployment.address);
+        if (state.state.type !== 'active' || !state.state.code) {
+            ui.write(`${chalk.redBright('✗')} ${title}: contract is ${state.state.type}`);
+            failed++;
+            continue;
+        }
+
+        const liveHash = Cell.fromBoc(state.state.code)[0].hash().toString('hex');
+        const buildHash = await readBuildCodeHash(deployment.name);
+        if (buildHash === undefined) {
+            const matches = liveHash === deployment.codeHash;
+            ui.write(
+                `${matches ? chalk.yellow('?') : chalk.redBright('✗')} ${title}: no build/${deployment.name}.compiled.json, live code ${matches ? 'matches' : 'differs from'} the recorded hash`,
+            );
+            if (!matches) failed++;
+        } else if (liveHash === buildHash) {
+            ui.write(`${chalk.green('✓')} ${title}: live code matches build/${deployment.name}.compiled.json`);
+        } else {
+            ui.write(
+                `${chalk.redBright('✗')} ${title}: live code hash ${liveHash} differs from build/${deployment.name}.compiled.json hash ${buildHash}`,
+            );
+            failed++;
+        }
+    }
+
+    if (failed > 0) {
+        throw new Error(`${failed} of ${deployments.length} deployments do not match the local build`);
+    }
+}
+
+export const deployments: Runner = async (_args: Args, ui: UIProvider, context: RunnerContext) => {
+    const localArgs = arg({ ...argSpec, ...helpArgs });
+    if (localArgs['--help']) {
+        ui.write(helpMessages['deployments']);
+        return;
+    }
+
+    switch (localArgs._[1]) {
+        case 'list':
+        case undefined: {
+            await list(localArgs, ui);
+            break;
+        }
+        case 'show': {
+            await show(localArgs, ui);
+            break;
+        }
+        case 'check': {
+            await check(localArgs, ui, context);
+            break;
+        }
+        default: {
+            throw new Error('Unknown subcommand: ' + localArgs._[1]);
+        }
+    }
+};
@@ -0,0 +1,95 @@
+import arg from 'arg';
+import chalk from 'chalk';
+
+import { Args, Runner } from './Runner';
+import { helpArgs, helpMessages } from './constants';
+import { UIProvider } from '../ui/UIProvider';
+import { buildDependencyGraph, ContractDependencies, DependencyGraph } from '../compile/DependencyGraph';
+import { oneOrZeroOf } from '../utils';
+
+function formatContract(contract: ContractDependencies, graph: DependencyGraph): string {
+    let text = `${chalk.green(contract.name)}${contract.lang ? ` (${contract.lang})` : ''}${contract.config ? ` ${chalk.gray(contract.config)}` : ''}\n`;
+    if (contract.error !== undefined) {
+        return text + chalk.redBright(`  ${contract.error}\n`);
+    }
+
+    // Files imported several times are expanded once
+    const expanded = new Set<string>();
+    const visit = (file: string, depth: number) => {
+        const imports = graph.imports.get(file) ?? [];
+        if (expanded.has(file)) {
+            text += `${'  '.repeat(depth)}${chalk.gray(`${file}${imports.length > 0 ? ' ...' : ''}`)}\n`;
+            return;
+        }
+        expanded.add(file);
+        text += `${'  '.repeat(depth)}${file}\n`;
+        imports.forEach((imported) => visit(imported, depth + 1));
+    };
+    contract.entrypoints.forEach((entrypoint) => visit(entrypoint, 1));
+
+    return text;
+}
+
+function formatText(graph: DependencyGraph): string {
+    let text = graph.contracts.map((contract) => formatContract(contract, graph)).join('\n');
+
+    const dependents = new Map<string, string[]>();
+    for (const contract of graph.contracts) {
+        for (const file of contract.files) {
+            dependents.set(file, [...(dependents.get(file) ?? []), contract.name]);
+        }
+    }
+    const shared = [...dependents].filter(([, contracts]) => contracts.length > 1);
+    if (shared.length > 0) {
+        text += `\n${chalk.bold('Shared files:')}\n`;
+        text += shared.map(([file, contracts]) => `  ${file}: ${contracts.join(', ')}\n`).join('');
+    }
+
+    return text.trimEnd();
+}
+
+function formatJson(graph: DependencyGraph): string {
+    return JSON.stringify({ contracts: graph.contracts, imports: Object.fromEntries(graph.imports) }, null, 4);
+}
+
+function formatDot(graph: DependencyGraph): string {
+    const edges: string[] = [];
+    for (const contract of graph.contracts) {
+        edges.push(`    ${JSON.stringify(contract.name)} [shape=box];`);
+        for (const entrypoint of contract.entrypoints) {
+            edges.push(`    ${JSON.stringify(contract.name)} -> ${JSON.stringify(entrypoint)};`);
+        }
+    }
+    for (const [file, imports] of graph.imports) {
+        for (const imported of imports) {
+            edges.push(`    ${JSON.stringify(file)} -> ${JSON.stringify(imported)};`);
+        }
+    }
+
+    return `digraph dependencies {\n${edges.join('\n')}\n}`;
+}
+
+export const graph: Runner = async (_args: Args, ui: UIProvider) => {
+    const localArgs = arg({
+        '--json': Boolean,
+        '--dot': Boolean,
+        ...helpArgs,
+    });
+    if (localArgs['--help']) {
+        ui.write(helpMessages['graph']);
+        return;
+    }
+
+    const format = oneOrZeroOf({ json: localArgs['--json'], dot: localArgs['--dot'] });
+    const dependencyGraph = await buildDependencyGraph();
+
+    if (format === 'json') {
+        ui.write(formatJson(dependencyGraph));
+    } else if (format === 'dot') {
+        ui.write(formatDot(dependencyGraph));
+    } else if (dependencyGraph.contracts.length === 0) {
+        ui.write('No contracts found');
+    } else {
+        ui.write(formatText(dependencyGraph));
+    }
+};
@@ -6,6 +6,7 @@ import chalk from 'chalk';
 
 import { Args, extractFirstArg as _extractFirstArg, Runner, RunnerContext } from './Runner';
 import { createNetworkProvider, argSpec } from '../network/createNetworkProvider';
+import { runWithSandboxState } from '../network/sandbox/state';
 import { findScripts, selectFile } from '../utils';
 import { getEntityName } from '../utils/cliUtils';
 import { UIProvider } from '../ui/UIProvider';
@@ -60,7 +61,7 @@ export const run: Runner = async (_args: Args, ui: UIProvider, context: RunnerCo
     const scriptArgs = localArgs._.slice(2);
 
     try {
-        await mod.run(networkProvider, scriptArgs);
+        await runWithSandboxState(networkProvider, () => mod.run(networkProvider, scriptArgs));
         ui.write(chalk.gray(`Script ${finalScriptName} executed successfully.`));
     } catch (e) {
         ui.write(chalk.redBright(`Error executing script ${finalScriptName}: ${(e as Error).message || e}`));
@@ -0,0 +1,84 @@
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+
+import arg from 'arg';
+
+import { Args, extractSecondArg, Runner } from './Runner';
+import { helpArgs, helpMessages } from './constants';
+import { UIProvider } from '../ui/UIProvider';
+import {
+    getSandboxSnapshotDeploymentsPath,
+    getSandboxSnapshotPath,
+    SANDBOX_STATE_FILE,
+} from '../network/sandbox/state';
+import { DeploymentRegistry } from '../network/deployments/DeploymentRegistry';
+
+/**
+ * Copies the file if it exists and removes the destination otherwise, so that deployments never outlive the state.
+ */
+async function copyOrRemove(from: string, to: string) {
+    if (existsSync(from)) {
+        await fs.mkdir(path.dirname(to), { recursive: true });
+        await fs.copyFile(from, to);
+    } else {
+        await fs.rm(to, { force: true });
+    }
+}
+
+function requireSnapshotName(args: Args): string {
+    const name = extractSecondArg(args);
+    if (name === undefined) {
+        throw new Error('Please pass a snapshot name');
+    }
+
+    return name;
+}
+
+export const sandbox: Runner = async (args: Args, ui: UIProvider) => {
+    const localArgs = arg(helpArgs);
+    if (localArgs['--help']) {
+        ui.write(helpMessages['sandbox']);
+        return;
+    }
+
+    if (args._.length < 2) {
+        throw new Error('Please pass a subcommand: reset, save or load');
+    }
+
+    switch (args._[1]) {
+        case 'reset': {
+            await fs.rm(SANDBOX_STATE_FILE, { force: true });
+            await fs.rm(new DeploymentRegistry('sandbox').path(), { force: true });
+            ui.write('Sandbox state was reset, the next run will start from an empty blockchain');
+            break;
+        }
+        case 'save': {
+            const name = requireSnapshotName(args);
+            const snapshotPath = getSandboxSnapshotPath(name);
+            if (!existsSync(SANDBOX_STATE_FILE)) {
+                throw new Error('There is no sandbox state to save, run a script with --sandbox first');
+            }
+            await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
+            await fs.copyFile(SANDBOX_STATE_FILE, snapshotPath);
+            await copyOrRemove(new DeploymentRegistry('sandbox').path(), getSandboxSnapshotDeploymentsPath(name));
+            ui.write(`Saved sandbox state to ${path.relative(process.cwd(), snapshotPath)}`);
+            break;
+        }
+        case 'load': {
+            const name = requireSnapshotName(args);
+            const snapshotPath = getSandboxSnapshotPath(name);
+            if (!existsSync(snapshotPath)) {
+                throw new Error(`Sandbox snapshot '${name}' not found`);
+            }
+            await fs.mkdir(path.dirname(SANDBOX_STATE_FILE), { recursive: true });
+            await fs.copyFile(snapshotPath, SANDBOX_STATE_FILE);
+            await copyOrRemove(getSandboxSnapshotDeploymentsPath(name), new DeploymentRegistry('sandbox').path());
+            ui.write(`Loaded sandbox state from snapshot '${name}'`);
+            break;
+        }
+        default: {
+            throw new Error('Unknown subcommand: ' + args._[1]);
+        }
+    }
+};
@@ -217,8 +217,8 @@ export const verify: Runner = async (_args: Args, ui: UIProvider, context: Runne
     }
 
     const network = networkProvider.network();
-    if (network === 'custom') {
-        throw new Error('Cannot use custom network');
+    if (network === 'custom' || network === 'sandbox') {
+        throw new Error(`Cannot use ${network} network`);
     }
 
     const result = await doCompile(selectedContract);
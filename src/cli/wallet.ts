@@ -0,0 +1,260 @@
+import arg from 'arg';
+import chalk from 'chalk';
+import { Address, comment, fromNano, toNano } from '@ton/core';
+import { mnemonicNew, mnemonicValidate } from '@ton/crypto';
+
+import { Args, extractPosArg, extractSecondArg, Runner, RunnerContext } from './Runner';
+import { helpArgs, helpMessages } from './constants';
+import { UIProvider } from '../ui/UIProvider';
+import { findKey, Keystore, KeystoreKey, listKeys, unlockKey } from '../network/keystore/Keystore';
+import { argSpec as networkArgSpec, createNetworkProvider } from '../network/createNetworkProvider';
+import { NetworkProvider } from '../network/NetworkProvider';
+import { getLastTransactions } from '../network/transactions';
+import { BlueprintTransaction, toBlueprintTransaction } from '../network/BlueprintTransaction';
+
+const argSpec = {
+    ...networkArgSpec,
+    '--global': Boolean,
+};
+
+const DEFAULT_TRANSACTIONS_COUNT = 10;
+
+type WalletArgs = arg.Result<typeof argSpec>;
+
+function requireKeyName(args: WalletArgs): string {
+    const name = extractSecondArg(args);
+    if (name === undefined) {
+        throw new Error('Please pass a key name');
+    }
+    return name;
+}
+
+/**
+ * Finds the key named in the arguments, in the global keystore only if `--global` is passed.
+ */
+async function findSelectedKey(args: WalletArgs): Promise<KeystoreKey> {
+    const name = requireKeyName(args);
+    const key = args['--global'] ? await new Keystore('global').get(name) : await findKey(name);
+    if (key === undefined) {
+        throw new Error(`Key ${name} not found`);
+    }
+    return key;
+}
+
+function formatKey(key: KeystoreKey): string {
+    return `${chalk.green(key.name)} ${chalk.gray(`(${key.location})`)} public key ${key.publicKey.toString('hex')} ${chalk.gray(key.createdAt.toISOString())}`;
+}
+
+async function inputPassphrase(ui: UIProvider): Promise<string> {
+    const passphrase = await ui.input('Enter a passphrase to encrypt the key:');
+    if (passphrase.length === 0) {
+        throw new Error('Passphrase must not be empty');
+    }
+    if ((await ui.input('Repeat the passphrase:')) !== passphrase) {
+        throw new Error('Passphrases do not match');
+    }
+    return passphrase;
+}
+
+async function add(args: WalletArgs, ui: UIProvider) {
+    const name = requireKeyName(args);
+    const keystore = new Keystore(args['--global'] ? 'global' : 'project');
+    if ((await keystore.get(name)) !== undefined) {
+        throw new Error(`Key ${name} already exists in ${keystore.path(name)}`);
+    }
+
+    const input = (await ui.input('Enter the mnemonic (leave empty to generate a new one):')).trim();
+    const generated = input.length === 0;
+    const mnemonic = generated ? await mnemonicNew() : input.split(/\s+/);
+    if (!(await mnemonicValidate(mnemonic))) {
+        throw new Error('Invalid mnemonic');
+    }
+
+    const key = await keystore.add(name, mnemonic, await inputPassphrase(ui));
+    ui.write(`Added key ${formatKey(key)} to ${keystore.path(name)}`);
+    if (generated) {
+        ui.write(`Generated a new mnemonic, back it up with ${chalk.cyan(`blueprint wallet export ${name}`)}`);
+    }
+}
+
+async function list(ui: UIProvider) {
+    const keys = await listKeys();
+    if (keys.length === 0) {
+        ui.write('No keys in the keystore yet');
+        return;
+    }
+
+    for (const key of keys) {
+        ui.write(formatKey(key));
+    }
+}
+
+async function remove(args: WalletArgs, ui: UIProvider) {
+    const key = await findSelectedKey(args);
+    const keystore = new Keystore(key.location);
+    if (!(await ui.prompt(`Remove key ${key.name} from ${keystore.path(key.name)}? Funds are lost without a backup`))) {
+        return;
+    }
+
+    await keystore.remove(key.name);
+    ui.write(`Removed key ${key.name}`);
+}
+
+async function exportKey(args: WalletArgs, ui: UIProvider) {
+    const key = await findSelectedKey(args);
+    ui.write((await unlockKey(key, ui)).join(' '));
+}
+
+async function connect(args: WalletArgs, ui: UIProvider, context: RunnerContext) {
+    const provider = await createNetworkProvider(ui, args, context.config);
+    const address = provider.sender().address;
+    if (address === undefined) {
+        throw new Error('Address of the wallet is unknown, choose a deployer that connects to a wallet');
+    }
+    return { provider, address };
+}
+
+function formatAddress(address: Address, provider: NetworkProvider, bounceable: boolean): string {
+    return address.toString({ testOnly: provider.network() !== 'mainnet', bounceable });
+}
+
+async function showAddress(args: WalletArgs, ui: UIProvider, context: RunnerContext) {
+    const { provider, address } = await connect(args, ui, context);
+    ui.write(`Raw:            ${address.toRawString()}
+Bounceable:     ${formatAddress(address, provider, true)}
+Non-bounceable: ${formatAddress(address, provider, false)}`);
+}
+
+async function showBalance(args: WalletArgs, ui: UIProvider, context: RunnerContext) {
+    const { provider, address } = await connect(args, ui, context);
+    const state = await provider.getContractState(address);
+
+    let seqno = '-';
+    if (state.state.type === 'active') {
+        try {
+            seqno = String((await provider.provider(address).get('seqno', [])).stack.readNumber());
+        } catch (_) {
+            // Wallets without seqno, such as highload wallets
+        }
+    }
+
+    ui.write(`Address: ${formatAddress(address, provider, false)}
+Balance: ${fromNano(state.balance)} TON
+State:   ${state.state.type}
+Seqno:   ${seqno}`);
+}
+
+function formatTransaction(transaction: BlueprintTransaction, provider: NetworkProvider): string {
+    const inMessage = transaction.raw.inMessage;
+    let incoming = 'tick-tock';
+    if (inMessage?.info.type === 'internal') {
+        incoming = `in ${fromNano(inMessage.info.value.coins)} TON from ${formatAddress(inMessage.info.src, provider, inMessage.info.bounce)}`;
+    } else if (inMessage?.info.type === 'external-in') {
+        incoming = 'external';
+    }
+
+    const outgoing = transaction.outMessages
+        .filter((message) => message.value !== undefined && Address.isAddress(message.destination))
+        .map(
+            (message) =>
+                `out ${fromNano(message.value!)} TON to ${formatAddress(message.destination as Address, provider, message.bounce ?? true)}`,
+        );
+
+    return `${chalk.gray(new Date(transaction.now * 1000).toISOString())} ${transaction.success ? chalk.green('✓') : chalk.redBright('✗')} ${[incoming, ...outgoing].join(', ')} ${chalk.gray(transaction.hash)}`;
+}
+
+async function showTransactions(args: WalletArgs, ui: UIProvider, context: RunnerContext) {
+    const countArg = extractSecondArg(args);
+    const count = countArg === undefined ? DEFAULT_TRANSACTIONS_COUNT : Number(countArg);
+    if (!Number.isInteger(count) || count <= 0) {
+        throw new Error(`Invalid number of transactions: ${countArg}`);
+    }
+
+    const { provider, address } = await connect(args, ui, context);
+    if (provider.network() === 'sandbox') {
+        throw new Error('Transaction history is not available in sandbox');
+    }
+    const transactions = (await getLastTransactions(provider.api(), address, count)).slice(0, count);
+    if (transactions.length === 0) {
+        ui.write('No transactions yet');
+        return;
+    }
+
+    for (const transaction of transactions) {
+        ui.write(formatTransaction(toBlueprintTransaction(transaction, address), provider));
+    }
+}
+
+async function transfer(args: WalletArgs, ui: UIProvider, context: RunnerContext) {
+    const to = extractSecondArg(args);
+    const amount = extractPosArg(args, 3);
+    if (to === undefined || amount === undefined) {
+        throw new Error('Please pass the destination address and the amount in TON');
+    }
+
+    // Like wallet apps, the bounce flag follows the flag of the friendly address
+    const destination = Address.isFriendly(to)
+        ? Address.parseFriendly(to)
+        : { address: Address.parse(to), isBounceable: true };
+    const value = toNano(amount);
+    const text = args._.slice(4).join(' ');
+
+    const { provider } = await connect(args, ui, context);
+    await provider.sender().send({
+        to: destination.address,
+        value,
+        bounce: destination.isBounceable,
+        body: text.length > 0 ? comment(text) : undefined,
+    });
+
+    ui.write(
+        `Transferred ${fromNano(value)} TON to ${formatAddress(destination.address, provider, destination.isBounceable)}`,
+    );
+}
+
+export const wallet: Runner = async (_args: Args, ui: UIProvider, context: RunnerContext) => {
+    const localArgs = arg({ ...argSpec, ...helpArgs });
+    if (localArgs['--help']) {
+        ui.write(helpMessages['wallet']);
+        return;
+    }
+
+    switch (localArgs._[1]) {
+        case 'add': {
+            await add(localArgs, ui);
+            break;
+        }
+        case 'list':
+        case undefined: {
+            await list(ui);
+            break;
+        }
+        case 'remove': {
+            await remove(localArgs, ui);
+            break;
+        }
+        case 'export': {
+            await exportKey(localArgs, ui);
+            break;
+        }
+        case 'address': {
+            await showAddress(localArgs, ui, context);
+            break;
+        }
+        case 'balance': {
+            await showBalance(localArgs, ui, context);
+            break;
+        }
+        case 'transactions': {
+            await showTransactions(localArgs, ui, context);
+            break;
+        }
+        case 'transfer': {
+            await transfer(localArgs, ui, context);
+            break;
+        }
+        default: {
+            throw new Error('Unknown subcommand: ' + localArgs._[1]);
+        }
+    }
+};
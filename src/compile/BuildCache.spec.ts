@@ -0,0 +1,108 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+
+import { CompilerConfig } from './CompilerConfig';
+
+type BuildCacheModule = typeof import('./BuildCache');
+
+describe('BuildCache', () => {
+    const cwd = process.cwd();
+    const config: CompilerConfig = { lang: 'func', targets: ['contracts/counter.fc'] };
+    const input = { lang: 'func', compilerVersion: '0.4.6', config };
+    const artifact = path.join('build', 'Counter.compiled.json');
+    let dir: string;
+    let cache: BuildCacheModule;
+
+    const write = async (filename: string, content: string) => {
+        await fs.mkdir(path.dirname(filename), { recursive: true });
+        await fs.writeFile(filename, content);
+    };
+
+    // Only the entrypoint is reported by the compiler, the included file is found through the dependency graph
+    const build = async () => {
+        await write(artifact, '{}');
+        await cache.writeBuildCache('Counter', {
+            ...input,
+            sources: [
+                { filename: 'contracts/counter.fc', content: await fs.readFile('contracts/counter.fc', 'utf-8') },
+            ],
+            outputs: [artifact],
+        });
+    };
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blueprint-cache-'));
+        process.chdir(dir);
+        // Project paths are resolved against the working directory when the modules are loaded
+        jest.resetModules();
+        cache = await import('./BuildCache');
+
+        await write(
+            'wrappers/Counter.compile.ts',
+            `export const compile = { lang: 'func', targets: ['contracts/counter.fc'] };\n`,
+        );
+        await write('contracts/counter.fc', '#include "imports/lib.fc";\n() recv_internal() impure { }\n');
+        await write('contracts/imports/lib.fc', 'int one() inline { return 1; }\n');
+        await build();
+    });
+
+    afterEach(async () => {
+        process.chdir(cwd);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('is a hit when nothing changed', async () => {
+        expect(await cache.isBuildUpToDate('Counter', input)).toBe(true);
+        expect((await cache.readBuildCache('Counter'))?.sources.sort()).toEqual([
+            path.join('contracts', 'counter.fc'),
+            path.join('contracts', 'imports', 'lib.fc'),
+        ]);
+    });
+
+    it('is a miss when a source file changed', async () => {
+        await write('contracts/counter.fc', '#include "imports/lib.fc";\n() recv_internal() { }\n');
+
+        expect(await cache.isBuildUpToDate('Counter', input)).toBe(false);
+    });
+
+    it('is a miss when an included file changed', async () => {
+        await write('contracts/imports/lib.fc', 'int one() inline { return 2; }\n');
+
+        expect(await cache.isBuildUpToDate('Counter', input)).toBe(false);
+    });
+
+    it('is a miss when a source file was removed', async () => {
+        await fs.rm('contracts/imports/lib.fc');
+
+        expect(await cache.isBuildUpToDate('Counter', input)).toBe(false);
+    });
+
+    it('is a miss when the compiler version changed', async () => {
+        expect(await cache.isBuildUpToDate('Counter', { ...input, compilerVersion: '0.4.7' })).toBe(false);
+    });
+
+    it('is a miss when the config changed', async () => {
+        const changed: CompilerConfig = { ...config, optLevel: 1 };
+
+        expect(await cache.isBuildUpToDate('Counter', { ...input, config: changed })).toBe(false);
+    });
+
+    it('is a miss when an artifact is missing', async () => {
+        await fs.rm(artifact);
+
+        expect(await cache.isBuildUpToDate('Counter', input)).toBe(false);
+    });
+
+    it('is a miss when there is no cache entry', async () => {
+        await cache.removeBuildCache('Counter');
+
+        expect(await cache.isBuildUpToDate('Counter', input)).toBe(false);
+    });
+
+    it('is always a miss for contracts with hooks', async () => {
+        const hooked: CompilerConfig = { ...config, preCompileHook: async () => {} };
+
+        expect(await cache.isBuildUpToDate('Counter', { ...input, config: hooked })).toBe(false);
+    });
+});
@@ -0,0 +1,143 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+
+import { BUILD_DIR } from '../paths';
+import { CompilerConfig } from './CompilerConfig';
+import { SourceSnapshot } from './SourceSnapshot';
+import { buildDependencyGraph } from './DependencyGraph';
+
+const BUILD_CACHE_VERSION = 1;
+
+/**
+ * Stored beside the build artifact as `build/<name>.cache.json`.
+ */
+export type BuildCacheEntry = {
+    version: number;
+    /**
+     * Hex-encoded SHA-256 of the sources, the compiler version and the compiler config.
+     */
+    hash: string;
+    lang: string;
+    compilerVersion: string;
+    /**
+     * Source files read by the compiler, relative to the project root.
+     */
+    sources: string[];
+    /**
+     * Files written by the build, relative to the project root.
+     */
+    outputs: string[];
+};
+
+type BuildCacheInput = {
+    lang: string;
+    compilerVersion: string;
+    config: CompilerConfig;
+    sources: SourceSnapshot[];
+};
+
+function sha256(data: string | Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+function relativePath(filename: string): string {
+    return path.relative(process.cwd(), path.resolve(filename));
+}
+
+function computeBuildHash(input: BuildCacheInput): string {
+    const sources = input.sources
+        .map((source) => [relativePath(source.filename), sha256(source.content)])
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    return sha256(
+        JSON.stringify({
+            version: BUILD_CACHE_VERSION,
+            lang: input.lang,
+            compilerVersion: input.compilerVersion,
+            // Functions (e.g. `sources` callbacks) are dropped, the files they read are in the snapshot
+            config: input.config,
+            sources,
+        }),
+    );
+}
+
+/**
+ * Hooks may have side effects, such as generating sources, so contracts with hooks are always rebuilt.
+ */
+function isCacheable(config: CompilerConfig): boolean {
+    return (
+        !('preCompileHook' in config && config.preCompileHook) &&
+        !('postCompileHook' in config && config.postCompileHook)
+    );
+}
+
+export function getBuildCachePath(contract: string): string {
+    return path.join(BUILD_DIR, `${contract}.cache.json`);
+}
+
+export async function readBuildCache(contract: string): Promise<BuildCacheEntry | undefined> {
+    try {
+        const entry = JSON.parse(await fs.readFile(getBuildCachePath(contract), 'utf-8')) as BuildCacheEntry;
+        return entry.version === BUILD_CACHE_VERSION ? entry : undefined;
+    } catch (_) {
+        return undefined;
+    }
+}
+
+export async function writeBuildCache(contract: string, input: BuildCacheInput & { outputs: string[] }): Promise<void> {
+    // Virtual files, such as the standard library bundled with the compiler, are covered by the compiler version
+    const sources = input.sources.filter((source) => existsSync(source.filename));
+
+    // Files the contract imports according to the dependency graph are part of the key even if the compiler
+    // did not report them, so that the cache and the watch mode agree on the files of the contract
+    const reported = new Set(sources.map((source) => relativePath(source.filename)));
+    const [dependencies] = (await buildDependencyGraph([contract])).contracts;
+    for (const filename of dependencies.files) {
+        if (!reported.has(filename) && existsSync(filename)) {
+            sources.push({ filename, content: await fs.readFile(filename, 'utf-8') });
+        }
+    }
+    const entry: BuildCacheEntry = {
+        version: BUILD_CACHE_VERSION,
+        hash: computeBuildHash({ ...input, sources }),
+        lang: input.lang,
+        compilerVersion: input.compilerVersion,
+        sources: sources.map((source) => relativePath(source.filename)),
+        outputs: input.outputs.map(relativePath),
+    };
+
+    await fs.mkdir(path.dirname(getBuildCachePath(contract)), { recursive: true });
+    await fs.writeFile(getBuildCachePath(contract), JSON.stringify(entry, null, 4) + '\n');
+}
+
+export async function removeBuildCache(contract: string): Promise<void> {
+    await fs.rm(getBuildCachePath(contract), { force: true });
+}
+
+/**
+ * Checks whether the artifacts of the last build of the contract are still up to date:
+ * all of them exist, and the sources they were built from, the compiler version and the config are unchanged.
+ */
+export async function isBuildUpToDate(contract: string, input: Omit<BuildCacheInput, 'sources'>): Promise<boolean> {
+    if (!isCacheable(input.config)) {
+        return false;
+    }
+
+    const entry = await readBuildCache(contract);
+    if (entry === undefined || !entry.outputs.every((output) => existsSync(output))) {
+        return false;
+    }
+
+    const sources: SourceSnapshot[] = [];
+    for (const filename of entry.sources) {
+        try {
+            sources.push({ filename, content: await fs.readFile(filename, 'utf-8') });
+        } catch (_) {
+            return false;
+        }
+    }
+
+    return computeBuildHash({ ...input, sources }) === entry.hash;
+}
@@ -0,0 +1,115 @@
+import { createFailedBuildReport, formatDiagnostic, parseDiagnostics } from './BuildReport';
+
+describe('parseDiagnostics', () => {
+    it('parses FunC errors with the source excerpt', () => {
+        const output = [
+            'contracts/counter.fc:12:5: error: undefined function `load_data`, defining a global function of unknown type',
+            '    load_data();',
+            '    ^',
+        ].join('\n');
+
+        expect(parseDiagnostics(output)).toEqual([
+            {
+                file: 'contracts/counter.fc',
+                line: 12,
+                column: 5,
+                message: [
+                    'undefined function `load_data`, defining a global function of unknown type',
+                    '    load_data();',
+                    '    ^',
+                ].join('\n'),
+            },
+        ]);
+    });
+
+    it('parses Tolk errors and warnings', () => {
+        const output = [
+            'Tolk compilation error: contracts/main.tolk:3:12: error: undefined symbol `y`',
+            '    // in function `main`',
+            '   3 |     return y;',
+            '     |            ^',
+            '',
+            'contracts/imports/utils.tolk:7:9: warning: variable `x` is never used',
+            '',
+        ].join('\n');
+
+        expect(parseDiagnostics(output)).toEqual([
+            {
+                file: 'contracts/main.tolk',
+                line: 3,
+                column: 12,
+                message: [
+                    'undefined symbol `y`',
+                    '    // in function `main`',
+                    '   3 |     return y;',
+                    '     |            ^',
+                ].join('\n'),
+            },
+            {
+                file: 'contracts/imports/utils.tolk',
+                line: 7,
+                column: 9,
+                message: 'variable `x` is never used',
+            },
+        ]);
+    });
+
+    it('parses Tact errors without a severity', () => {
+        const output = [
+            'contracts/main.tact:3:22: Cannot find global function "foo"',
+            '  2 |     receive() {',
+            '> 3 |         let x: Int = foo();',
+            '                           ^~~~~',
+            '  4 |     }',
+        ].join('\n');
+
+        const [diagnostic, ...rest] = parseDiagnostics(output);
+        expect(rest).toEqual([]);
+        expect(diagnostic.file).toBe('contracts/main.tact');
+        expect(diagnostic.line).toBe(3);
+        expect(diagnostic.column).toBe(22);
+        expect(diagnostic.message.split('\n')[0]).toBe('Cannot find global function "foo"');
+        expect(diagnostic.message.split('\n')).toHaveLength(5);
+    });
+
+    it('parses locations without a column', () => {
+        expect(parseDiagnostics('contracts/legacy.func:8: error: unknown identifier `x`')).toEqual([
+            { file: 'contracts/legacy.func', line: 8, column: undefined, message: 'unknown identifier `x`' },
+        ]);
+    });
+
+    it('keeps output without a location as a separate diagnostic', () => {
+        const output = ['Could not compile tact', 'contracts/main.tact:1:1: Parse error'].join('\n');
+
+        expect(parseDiagnostics(output)).toEqual([
+            { message: 'Could not compile tact' },
+            { file: 'contracts/main.tact', line: 1, column: 1, message: 'Parse error' },
+        ]);
+    });
+
+    it('returns no diagnostics for empty output', () => {
+        expect(parseDiagnostics('')).toEqual([]);
+        expect(parseDiagnostics('\n  \n')).toEqual([]);
+    });
+});
+
+describe('formatDiagnostic', () => {
+    it('formats the location before the message', () => {
+        expect(formatDiagnostic({ file: 'contracts/main.tolk', line: 3, column: 12, message: 'error' })).toBe(
+            'contracts/main.tolk:3:12: error',
+        );
+        expect(formatDiagnostic({ file: 'contracts/main.fc', line: 3, message: 'error' })).toBe(
+            'contracts/main.fc:3: error',
+        );
+        expect(formatDiagnostic({ message: 'error' })).toBe('error');
+    });
+});
+
+describe('createFailedBuildReport', () => {
+    it('parses the error, falling back to its whole message', () => {
+        expect(createFailedBuildReport('Counter', new Error('   ')).errors).toEqual([{ message: '   ' }]);
+        expect(createFailedBuildReport('Counter', 'contracts/counter.fc:1:1: error: oops').errors).toEqual([
+            { file: 'contracts/counter.fc', line: 1, column: 1, message: 'oops' },
+        ]);
+    });
+});
@@ -0,0 +1,133 @@
+import { Cell } from '@ton/core';
+
+export type BuildDiagnostic = {
+    message: string;
+    /**
+     * Location of the diagnostic, if the compiler reported it.
+     */
+    file?: string;
+    line?: number;
+    column?: number;
+};
+
+/**
+ * Machine-readable result of a contract build, printed by `blueprint build --json`.
+ */
+export type BuildReport = {
+    contract: string;
+    success: boolean;
+    /**
+     * False if the contract was up to date and was not compiled again.
+     */
+    compiled: boolean;
+    lang?: string;
+    compilerVersion?: string;
+    /**
+     * Hex-encoded hash of the code cell.
+     */
+    codeHash?: string;
+    /**
+     * Size of the code serialized as a BOC, in bytes.
+     */
+    bocSize?: number;
+    /**
+     * Number of distinct cells of the code.
+     */
+    cells?: number;
+    /**
+     * Files written by the build, relative to the project root.
+     */
+    artifacts: string[];
+    warnings: BuildDiagnostic[];
+    errors: BuildDiagnostic[];
+};
+
+// Matches `file:line:` and `file:line:column:` locations, optionally followed by the severity
+const LOCATION_REGEX = /(\S+\.(?:fc|func|tolk|tact)):(\d+)(?::(\d+))?:\s*(?:(?:error|warning):\s*)?/;
+
+/**
+ * Splits compiler output into diagnostics. A diagnostic starts at a line with a location,
+ * the following lines, such as the source excerpt, are part of its message.
+ */
+export function parseDiagnostics(output: string): BuildDiagnostic[] {
+    const diagnostics: BuildDiagnostic[] = [];
+    let current: BuildDiagnostic | undefined;
+    for (const line of output.split('\n')) {
+        const match = line.match(LOCATION_REGEX);
+        if (match !== null) {
+            current = {
+                message: line.slice(match.index! + match[0].length),
+                file: match[1],
+                line: Number(match[2]),
+                column: match[3] === undefined ? undefined : Number(match[3]),
+            };
+            diagnostics.push(current);
+        } else if (current !== undefined) {
+            current.message += '\n' + line;
+        } else if (line.trim().length > 0) {
+            current = { message: line };
+            diagnostics.push(current);
+        }
+    }
+
+    return diagnostics.map((diagnostic) => ({ ...diagnostic, message: diagnostic.message.trimEnd() }));
+}
+
+export function formatDiagnostic(diagnostic: BuildDiagnostic): string {
+    if (diagnostic.file === undefined) {
+        return diagnostic.message;
+    }
+    return `${diagnostic.file}:${diagnostic.line}${diagnostic.column === undefined ? '' : `:${diagnostic.column}`}: ${diagnostic.message}`;
+}
+
+function countCells(code: Cell): number {
+    const visited = new Set<string>();
+    const visit = (cell: Cell) => {
+        const hash = cell.hash().toString('hex');
+        if (!visited.has(hash)) {
+            visited.add(hash);
+            cell.refs.forEach(visit);
+        }
+    };
+    visit(code);
+
+    return visited.size;
+}
+
+export function createBuildReport(params: {
+    contract: string;
+    compiled: boolean;
+    lang: string;
+    compilerVersion: string;
+    code: Cell;
+    artifacts: string[];
+    warnings?: BuildDiagnostic[];
+}): BuildReport {
+    return {
+        contract: params.contract,
+        success: true,
+        compiled: params.compiled,
+        lang: params.lang,
+        compilerVersion: params.compilerVersion,
+        codeHash: params.code.hash().toString('hex'),
+        bocSize: params.code.toBoc().length,
+        cells: countCells(params.code),
+        artifacts: params.artifacts,
+        warnings: params.warnings ?? [],
+        errors: [],
+    };
+}
+
+export function createFailedBuildReport(contract: string, error: unknown): BuildReport {
+    const message = error instanceof Error ? error.message : String(error);
+    const errors = parseDiagnostics(message);
+
+    return {
+        contract,
+        success: false,
+        compiled: false,
+        artifacts: [],
+        warnings: [],
+        errors: errors.length > 0 ? errors : [{ message }],
+    };
+}
@@ -0,0 +1,158 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+
+import { parseImports } from './DependencyGraph';
+
+type DependencyGraphModule = typeof import('./DependencyGraph');
+
+describe('parseImports', () => {
+    it('parses FunC includes relative to the file', () => {
+        const content = ['#include "imports/stdlib.fc";', '#include "../common/utils.fc";'].join('\n');
+
+        expect(parseImports('contracts/main.fc', content)).toEqual([
+            path.join('contracts', 'imports', 'stdlib.fc'),
+            path.join('common', 'utils.fc'),
+        ]);
+    });
+
+    it('ignores FunC includes in comments', () => {
+        const content = [';; #include "line.fc";', '{-', '#include "block.fc";', '-}', '#include "real.fc";'].join(
+            '\n',
+        );
+
+        expect(parseImports('contracts/main.func', content)).toEqual([path.join('contracts', 'real.fc')]);
+    });
+
+    it('parses Tolk imports and skips the standard library', () => {
+        const content = ['import "@stdlib/tvm-dicts"', 'import "../lib/math.tolk"', "import 'errors.tolk'"].join('\n');
+
+        expect(parseImports('contracts/jetton/minter.tolk', content)).toEqual([
+            path.join('contracts', 'lib', 'math.tolk'),
+            path.join('contracts', 'jetton', 'errors.tolk'),
+        ]);
+    });
+
+    it('parses Tact imports and adds the missing extension', () => {
+        const content = ['import "@stdlib/deploy";', 'import "./messages";', 'import "../traits/owned.tact";'].join(
+            '\n',
+        );
+
+        expect(parseImports('contracts/nft/item.tact', content)).toEqual([
+            path.join('contracts', 'nft', 'messages.tact'),
+            path.join('contracts', 'traits', 'owned.tact'),
+        ]);
+    });
+
+    it('ignores Tolk and Tact imports in comments', () => {
+        const content = ['// import "line.tolk"', '/* import "block.tolk" */', 'import "real.tolk"'].join('\n');
+
+        expect(parseImports('contracts/main.tolk', content)).toEqual([path.join('contracts', 'real.tolk')]);
+    });
+
+    it('returns no imports for files of other languages', () => {
+        expect(parseImports('wrappers/Main.compile.ts', `import { CompilerConfig } from '@ton/blueprint';`)).toEqual(
+            [],
+        );
+    });
+});
+
+describe('buildDependencyGraph', () => {
+    const cwd = process.cwd();
+    let dir: string;
+    let graph: DependencyGraphModule;
+
+    const write = async (filename: string, content: string) => {
+        await fs.mkdir(path.dirname(filename), { recursive: true });
+        await fs.writeFile(filename, content);
+    };
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blueprint-graph-'));
+        process.chdir(dir);
+        // Project paths are resolved against the working directory when the modules are loaded
+        jest.resetModules();
+        graph = await import('./DependencyGraph');
+
+        await write(
+            'wrappers/Counter.compile.ts',
+            `export const compile = { lang: 'func', targets: ['contracts/counter.fc'] };\n`,
+        );
+        await write('contracts/counter.fc', '#include "imports/a.fc";\n');
+        // a.fc and b.fc include each other
+        await write('contracts/imports/a.fc', '#include "b.fc";\n#include "missing.fc";\n');
+        await write('contracts/imports/b.fc', '#include "a.fc";\n');
+
+        await write(
+            'wrappers/Minter.compile.ts',
+            `export const compile = { lang: 'tolk', entrypoint: 'contracts/minter.tolk' };\n`,
+        );
+        await write('contracts/minter.tolk', 'import "@stdlib/gas-payments"\nimport "imports/utils.tolk"\n');
+        await write('contracts/imports/utils.tolk', 'import "errors.tolk"\n');
+        await write('contracts/imports/errors.tolk', 'const ERROR_NOT_OWNER = 73;\n');
+        await write(
+            'wrappers/Wallet.compile.ts',
+            `export const compile = { lang: 'func', targets: ['contracts/wallet.fc', 'contracts/imports/b.fc'] };\n`,
+        );
+        await write('contracts/wallet.fc', '');
+
+        await write('wrappers/Broken.compile.ts', `export const notCompile = {};\n`);
+    });
+
+    afterEach(async () => {
+        process.chdir(cwd);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('collects the files of every contract, following cycles once', async () => {
+        const { contracts, imports } = await graph.buildDependencyGraph();
+        const byName = Object.fromEntries(contracts.map((contract) => [contract.name, contract]));
+
+        expect(byName['Counter']).toEqual({
+            name: 'Counter',
+            lang: 'func',
+            config: path.join('wrappers', 'Counter.compile.ts'),
+            entrypoints: [path.join('contracts', 'counter.fc')],
+            files: [
+                path.join('contracts', 'counter.fc'),
+                path.join('contracts', 'imports', 'a.fc'),
+                path.join('contracts', 'imports', 'b.fc'),
+                path.join('contracts', 'imports', 'missing.fc'),
+            ],
+        });
+        expect(byName['Minter'].files).toEqual([
+            path.join('contracts', 'minter.tolk'),
+            path.join('contracts', 'imports', 'utils.tolk'),
+            path.join('contracts', 'imports', 'errors.tolk'),
+        ]);
+        expect(byName['Wallet'].files).toEqual([
+            path.join('contracts', 'wallet.fc'),
+            path.join('contracts', 'imports', 'b.fc'),
+            path.join('contracts', 'imports', 'a.fc'),
+            path.join('contracts', 'imports', 'missing.fc'),
+        ]);
+        expect(imports.get(path.join('contracts', 'imports', 'missing.fc'))).toEqual([]);
+    });
+
+    it('reports contracts whose config cannot be loaded', async () => {
+        const { contracts } = await graph.buildDependencyGraph(['Broken']);
+
+        expect(contracts).toHaveLength(1);
+        expect(contracts[0].entrypoints).toEqual([]);
+        expect(contracts[0].files).toEqual([]);
+        expect(contracts[0].error).toBeDefined();
+    });
+
+    it('finds the contracts affected by a change', async () => {
+        const dependencies = await graph.buildDependencyGraph();
+
+        expect(graph.findDependentContracts(dependencies, 'contracts/imports/a.fc').sort()).toEqual([
+            'Counter',
+            'Wallet',
+        ]);
+        expect(graph.findDependentContracts(dependencies, path.resolve('contracts/counter.fc'))).toEqual(['Counter']);
+        expect(graph.findDependentContracts(dependencies, 'contracts/imports/errors.tolk')).toEqual(['Minter']);
+        expect(graph.findDependentContracts(dependencies, 'wrappers/Minter.compile.ts')).toEqual(['Minter']);
+        expect(graph.findDependentContracts(dependencies, 'contracts/unused.fc')).toEqual([]);
+    });
+});
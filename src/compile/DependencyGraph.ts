@@ -0,0 +1,168 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+
+import { getCompilerConfigForContract } from './compile';
+import { isCompilableConfig } from './CompilerConfig';
+import { TACT_ROOT_CONFIG } from '../paths';
+import { findCompiles, findContracts } from '../utils';
+
+export type SourceLang = 'func' | 'tolk' | 'tact';
+
+export type ContractDependencies = {
+    name: string;
+    lang?: SourceLang;
+    /**
+     * File that configures the contract: its .compile.ts file or tact.config.json.
+     */
+    config?: string;
+    entrypoints: string[];
+    /**
+     * Entrypoints and all files they import, directly or indirectly.
+     */
+    files: string[];
+    /**
+     * Set if the config of the contract could not be loaded.
+     */
+    error?: string;
+};
+
+export type DependencyGraph = {
+    contracts: ContractDependencies[];
+    /**
+     * Files imported by every parsed file. Imports of the standard libraries of the compilers are not included,
+     * imports of missing files are.
+     */
+    imports: Map<string, string[]>;
+};
+
+/**
+ * All paths of the graph are relative to the project root.
+ */
+function relativePath(filename: string): string {
+    return path.relative(process.cwd(), path.resolve(filename));
+}
+
+function sourceLang(filename: string): SourceLang | undefined {
+    switch (path.extname(filename)) {
+        case '.fc':
+        case '.func':
+            return 'func';
+        case '.tolk':
+            return 'tolk';
+        case '.tact':
+            return 'tact';
+        default:
+            return undefined;
+    }
+}
+
+function stripComments(content: string, lang: SourceLang): string {
+    if (lang === 'func') {
+        return content.replace(/\{-[\s\S]*?-\}/g, '').replace(/;;.*$/gm, '');
+    }
+    return content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+}
+
+/**
+ * Parses `#include` directives of FunC files and `import` statements of Tolk and Tact files.
+ * @returns Imported files, relative to the project root.
+ */
+export function parseImports(filename: string, content: string): string[] {
+    const lang = sourceLang(filename);
+    if (lang === undefined) {
+        return [];
+    }
+
+    const pattern = lang === 'func' ? /#include\s+"([^"]+)"/g : /\bimport\s+["']([^"']+)["']/g;
+    const imports: string[] = [];
+    for (const match of stripComments(content, lang).matchAll(pattern)) {
+        const specifier = match[1];
+        if (specifier.startsWith('@')) {
+            // @stdlib imports are bundled with the compiler
+            continue;
+        }
+
+        let imported = path.join(path.dirname(filename), specifier);
+        // Tact adds the extension to imports without one
+        if (lang === 'tact' && path.extname(imported) === '') {
+            imported += '.tact';
+        }
+        imports.push(relativePath(imported));
+    }
+
+    return imports;
+}
+
+async function loadContract(name: string): Promise<Omit<ContractDependencies, 'files'>> {
+    const compilable = (await findCompiles()).find((file) => file.name === name);
+    const contract = { name, config: compilable === undefined ? undefined : relativePath(compilable.path) };
+
+    try {
+        const config = await getCompilerConfigForContract(name);
+        if (!isCompilableConfig(config)) {
+            return {
+                ...contract,
+                lang: 'tact',
+                config: relativePath(TACT_ROOT_CONFIG),
+                entrypoints: config.projects.map((project) => relativePath(project.path)),
+            };
+        }
+        if (config.lang === 'tact') {
+            return { ...contract, lang: 'tact', entrypoints: [relativePath(config.target)] };
+        }
+        if (config.lang === 'tolk') {
+            return { ...contract, lang: 'tolk', entrypoints: [relativePath(config.entrypoint)] };
+        }
+        return { ...contract, lang: 'func', entrypoints: (config.targets ?? []).map(relativePath) };
+    } catch (e) {
+        return { ...contract, entrypoints: [], error: (e as Error).message ?? String(e) };
+    }
+}
+
+/**
+ * Builds the graph of the files each contract depends on, starting from the entrypoints in its config.
+ * @param contracts - Contracts to include, all contracts of the project by default.
+ */
+export async function buildDependencyGraph(contracts?: string[]): Promise<DependencyGraph> {
+    const imports = new Map<string, string[]>();
+    const collect = async (filename: string, files: Set<string>) => {
+        if (files.has(filename)) {
+            return;
+        }
+        files.add(filename);
+
+        if (!imports.has(filename)) {
+            imports.set(
+                filename,
+                existsSync(filename) ? parseImports(filename, await fs.readFile(filename, 'utf-8')) : [],
+            );
+        }
+        for (const imported of imports.get(filename)!) {
+            await collect(imported, files);
+        }
+    };
+
+    const result: ContractDependencies[] = [];
+    for (const name of contracts ?? (await findContracts())) {
+        const contract = await loadContract(name);
+        const files = new Set<string>();
+        for (const entrypoint of contract.entrypoints) {
+            await collect(entrypoint, files);
+        }
+        result.push({ ...contract, files: [...files] });
+    }
+
+    return { contracts: result, imports };
+}
+
+/**
+ * Finds the contracts that have to be rebuilt when the file changes: the contracts that import it
+ * and the contracts it configures.
+ */
+export function findDependentContracts(graph: DependencyGraph, filename: string): string[] {
+    const file = relativePath(filename);
+    return graph.contracts
+        .filter((contract) => contract.config === file || contract.files.includes(file))
+        .map((contract) => contract.name);
+}
@@ -9,6 +9,7 @@ export type FuncCompileResult = {
     code: Cell;
     targets: string[];
     snapshot: SourceSnapshot[];
+    warnings: string;
     version: string;
     debugInfo?: DebugInfo;
     marks?: Cell;
@@ -38,6 +39,8 @@ export async function doCompileFunc(config: CompilerConfig): Promise<FuncCompile
         code: Cell.fromBase64(cr.codeBoc),
         targets,
         snapshot: cr.snapshot,
+        // Declared, but not set by all versions of func-js
+        warnings: cr.warnings ?? '',
         version: await getFuncVersion(),
         debugInfo: cr.debugInfo,
         marks: cr.debugMarksBoc === undefined ? undefined : Cell.fromBase64(cr.debugMarksBoc),
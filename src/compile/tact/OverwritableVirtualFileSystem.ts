@@ -6,6 +6,10 @@ import { VirtualFileSystem } from '@tact-lang/compiler';
 export class OverwritableVirtualFileSystem implements VirtualFileSystem {
     root: string;
     overwrites: Map<string, Buffer> = new Map();
+    /**
+     * Files read from the disk, used as the source snapshot of the compilation.
+     */
+    reads: Map<string, Buffer> = new Map();
 
     constructor(root: string) {
         this.root = normalize(root);
@@ -23,7 +27,14 @@ export class OverwritableVirtualFileSystem implements VirtualFileSystem {
     }
 
     readFile(path: string): Buffer {
-        return this.overwrites.get(path) ?? readFileSync(path);
+        const overwritten = this.overwrites.get(path);
+        if (overwritten !== undefined) {
+            return overwritten;
+        }
+
+        const content = readFileSync(path);
+        this.reads.set(path, content);
+        return content;
     }
 
     writeFile(path: string, content: string | Buffer): void {
@@ -7,12 +7,18 @@ import { BUILD_DIR } from '../../paths';
 import { OverwritableVirtualFileSystem } from './OverwritableVirtualFileSystem';
 import { TactCompilerConfig, TactLegacyCompilerConfig } from './config';
 import { getRootTactConfig } from '../../config/tact.config';
+import { SourceSnapshot } from '../SourceSnapshot';
 
 export type TactCompileResult = {
     lang: 'tact';
     fs: Map<string, Buffer>;
     code: Cell;
     options?: Options;
+    snapshot: SourceSnapshot[];
+    /**
+     * Warnings logged by the compiler.
+     */
+    warnings: string;
     version: string;
 };
 
@@ -103,7 +109,9 @@ export async function doCompileTact(
     // Completely silence all console output from the compiler
     const originalConsoleError = console.error;
     const originalConsoleLog = console.log;
+    const originalConsoleWarn = console.warn;
     const capturedErrors: string[] = [];
+    const capturedWarnings: string[] = [];
 
     console.error = (...args: unknown[]) => {
         // Capture error messages for later processing
@@ -116,6 +124,11 @@ export async function doCompileTact(
         // intentionally noop
     };
 
+    // Warnings are returned with the result
+    console.warn = (...args: unknown[]) => {
+        capturedWarnings.push(args.join(' '));
+    };
+
     try {
         const res = await build(buildConfig);
         if (!res.ok) {
@@ -128,6 +141,8 @@ export async function doCompileTact(
             fs: fs.overwrites,
             code,
             options: buildConfig.config.options,
+            snapshot: [...fs.reads].map(([filename, content]) => ({ filename, content: content.toString('utf-8') })),
+            warnings: capturedWarnings.join('\n'),
             version: await getTactVersion(),
         };
     } catch (error) {
@@ -182,5 +197,6 @@ export async function doCompileTact(
         // Restore console functions
         console.error = originalConsoleError;
         console.log = originalConsoleLog;
+        console.warn = originalConsoleWarn;
     }
 }
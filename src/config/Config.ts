@@ -1,5 +1,8 @@
 import { CustomNetwork } from './CustomNetwork';
+import { LiteServerConfig } from './LiteServerConfig';
 import { Plugin } from './Plugin';
+import { RetryConfig } from './RetryConfig';
+import { WalletConfig } from './WalletConfig';
 
 export interface Config {
     /**
@@ -18,6 +21,7 @@ export interface Config {
 
     /**
      * Specifies the target network for deployment or interaction.
+     * `sandbox` runs scripts against an in-process local blockchain from `@ton/sandbox`.
      *
      * @example Custom network
      * import { Config } from '@ton-ai-core/blueprint';
@@ -30,8 +34,59 @@ export interface Config {
      *         key: 'YOUR_API_KEY',
      *     },
      * };
+     *
+     * @example Several endpoints, tried in order when a request fails
+     * export const config: Config = {
+     *     network: [
+     *         { endpoint: 'https://toncenter.com/api/v2/jsonRPC', version: 'v2', type: 'mainnet', key: 'YOUR_API_KEY' },
+     *         { endpoint: 'https://mainnet-v4.tonhubapi.com', version: 'v4', type: 'mainnet' },
+     *         { endpoint: 'https://ton.org/global.config.json', version: 'liteclient', type: 'mainnet' },
+     *     ],
+     * };
+     */
+    network?: 'mainnet' | 'testnet' | 'sandbox' | CustomNetwork | CustomNetwork[];
+
+    /**
+     * Connects to mainnet or testnet through liteservers instead of toncenter.
+     * `true` uses all liteservers from the ton.org global config of the network.
+     *
+     * @example Own liteservers
+     * export const config: Config = {
+     *     network: 'mainnet',
+     *     liteserver: {
+     *         config: './liteservers.json',
+     *         indices: [0, 2],
+     *     },
+     * };
+     */
+    liteserver?: boolean | LiteServerConfig;
+
+    /**
+     * Wallet used by the mnemonic and external signer deployers. Flags `--wallet-version`, `--workchain`
+     * and `--subwallet` take precedence over it.
+     *
+     * @example Second v5r1 subwallet in the masterchain
+     * export const config: Config = {
+     *     wallet: {
+     *         version: 'v5r1',
+     *         workchain: -1,
+     *         subwallet: 1,
+     *     },
+     * };
+     */
+    wallet?: WalletConfig;
+
+    /**
+     * Shell command or http(s) URL of the external signer, used when the external signer deployer is chosen.
+     * Can be overridden with the `--signer` flag. The signer never exposes the secret key to blueprint.
+     *
+     * @example
+     * export const config: Config = {
+     *     signer: 'node ./signer.js',
+     *     wallet: { version: 'v5r1' },
+     * };
      */
-    network?: 'mainnet' | 'testnet' | CustomNetwork;
+    signer?: string;
 
     /**
      * If true, keeps compilable files (`*.compile.ts`) in a separate directory `compilables`.
@@ -42,7 +97,7 @@ export interface Config {
     separateCompilables?: boolean;
 
     /**
-     * HTTP request timeout in milliseconds.
+     * Request timeout in milliseconds, applied to every API client (toncenter v2 and v4, TON API and liteservers).
      *
      * @example
      * export const config: Config = {
@@ -51,6 +106,22 @@ export interface Config {
      */
     requestTimeout?: number;
 
+    /**
+     * Retry policy for failed API requests, applied to every client type including custom networks.
+     * Network errors and timeouts are always retried, HTTP errors only when their status code is listed.
+     *
+     * @example
+     * export const config: Config = {
+     *     retry: {
+     *         attempts: 6,
+     *         initialDelay: 1000,
+     *         backoff: 1.5,
+     *         statusCodes: [429, 502, 503],
+     *     },
+     * };
+     */
+    retry?: RetryConfig;
+
     /**
      * If true, the `wrappers`/`compilables` directory will be searched recursively for contracts.
      *
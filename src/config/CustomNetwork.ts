@@ -3,4 +3,9 @@ export type CustomNetwork = {
     version?: 'v2' | 'v4' | 'tonapi' | 'liteclient';
     key?: string;
     type?: 'mainnet' | 'testnet' | 'custom';
+    /**
+     * Indices of the liteservers in the global config to connect to, only used with `version: 'liteclient'`.
+     * All liteservers are used by default.
+     */
+    liteservers?: number[];
 };
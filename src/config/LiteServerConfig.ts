@@ -0,0 +1,11 @@
+export type LiteServerConfig = {
+    /**
+     * Path to a local global config JSON file, or its URL.
+     * Defaults to the ton.org global config of the selected network (mainnet or testnet).
+     */
+    config?: string;
+    /**
+     * Indices of the liteservers in the global config to connect to. All liteservers are used by default.
+     */
+    indices?: number[];
+};
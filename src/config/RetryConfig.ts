@@ -0,0 +1,26 @@
+export type RetryConfig = {
+    /**
+     * Maximum number of attempts per request, including the first one.
+     *
+     * @default 4
+     */
+    attempts?: number;
+    /**
+     * Delay before the first retry, in milliseconds.
+     *
+     * @default 400
+     */
+    initialDelay?: number;
+    /**
+     * Multiplier applied to the delay after every retry.
+     *
+     * @default 2
+     */
+    backoff?: number;
+    /**
+     * HTTP status codes that are retried. Network errors and timeouts are always retried.
+     *
+     * @default [429]
+     */
+    statusCodes?: number[];
+};
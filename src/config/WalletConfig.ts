@@ -0,0 +1,35 @@
+import { WalletVersion } from '../network/send/wallets';
+
+export type WalletConfig = {
+    /**
+     * Name of the keystore key used by the mnemonic deployer instead of the `WALLET_MNEMONIC` env variable.
+     * Can be overridden with the `--key` flag. Defaults to the `WALLET_KEY` env variable.
+     */
+    key?: string;
+    /**
+     * Wallet contract version. Can be overridden with the `--wallet-version` flag.
+     * Defaults to the `WALLET_VERSION` env variable.
+     */
+    version?: WalletVersion;
+    /**
+     * Workchain of the wallet, 0 (basechain) or -1 (masterchain). Can be overridden with the `--workchain` flag.
+     *
+     * @default 0
+     */
+    workchain?: number;
+    /**
+     * Number of the subwallet derived from the same key. Can be overridden with the `--subwallet` flag.
+     * Selects the subwallet number of v5r1 wallets, the wallet ID offset of v3 and v4 wallets,
+     * and the subwallet ID of highload-v3 wallets.
+     */
+    subwallet?: number;
+    /**
+     * Raw wallet ID of v3, v4 and highload-v3 wallets, used when no subwallet is selected.
+     * Defaults to the `WALLET_ID` env variable.
+     */
+    walletId?: number;
+    /**
+     * Timeout of highload-v3 wallets in seconds. Defaults to the `WALLET_TIMEOUT` env variable, or 3600.
+     */
+    timeout?: number;
+};
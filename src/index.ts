@@ -1,9 +1,26 @@
-export { tonDeepLink, sleep, getNormalizedExtMessageHash } from './utils';
+export { tonDeepLink, sleep, getNormalizedExtMessageHash, sendBatch } from './utils';
 
-export { NetworkProvider, SenderWithSendResult } from './network/NetworkProvider';
+export { NetworkProvider, SenderWithSendResult, DeployIfNeededResult } from './network/NetworkProvider';
 
 export { createNetworkProvider } from './network/createNetworkProvider';
 
+export { FailoverClient, FailoverEndpoint } from './network/FailoverClient';
+
+export { ExternalSignerRequest, ExternalSignerSendResult } from './network/send/ExternalSignerProvider';
+export { MnemonicSendResult } from './network/send/MnemonicProvider';
+
+export { DeploymentRegistry, Deployment } from './network/deployments/DeploymentRegistry';
+export { Keystore, KeystoreKey, KeystoreLocation } from './network/keystore/Keystore';
+
+export {
+    BlueprintTransaction,
+    BlueprintTransactionFees,
+    BlueprintOutMessage,
+    BlueprintTrace,
+    toBlueprintTransaction,
+    flattenBlueprintTrace,
+} from './network/BlueprintTransaction';
+
 export {
     compile,
     CompileOpts,
@@ -23,6 +40,19 @@ export { Config } from './config/Config';
 export { Args, Runner, RunnerContext } from './cli/Runner';
 export { PluginRunner, Plugin } from './config/Plugin';
 export { CustomNetwork } from './config/CustomNetwork';
-export { buildOne, buildAll, buildAllTact } from './build';
+export { LiteServerConfig } from './config/LiteServerConfig';
+export { WalletConfig } from './config/WalletConfig';
+export { RetryConfig } from './config/RetryConfig';
+export { buildOne, buildAll, buildAllTact, BuildOpts } from './build';
+export { watchContracts, WatchOpts } from './watch';
+export { BuildReport, BuildDiagnostic } from './compile/BuildReport';
+export {
+    buildDependencyGraph,
+    findDependentContracts,
+    parseImports,
+    DependencyGraph,
+    ContractDependencies,
+    SourceLang,
+} from './compile/DependencyGraph';
 export { SourceSnapshot } from './compile/SourceSnapshot';
 export { getCompilerConfigForContract } from './compile/compile';
@@ -0,0 +1,174 @@
+import { Address, Cell, ExternalAddress, fromNano, Transaction } from '@ton/core';
+
+export type BlueprintOutMessage = {
+    /**
+     * Destination of the message, `null` for external out messages without a destination (e.g. event logs).
+     */
+    destination: Address | ExternalAddress | null;
+    /**
+     * Value attached to an internal message, `undefined` for external out messages.
+     */
+    value?: bigint;
+    bounce?: boolean;
+    body: Cell;
+};
+
+export type BlueprintTransactionFees = {
+    total: bigint;
+    storage: bigint;
+    gas: bigint;
+    /**
+     * Forwarding fees of the outgoing messages created in the action phase.
+     */
+    forward: bigint;
+    action: bigint;
+};
+
+/**
+ * Transaction in the same shape regardless of the API used to fetch it (toncenter v2, v4, TON API, lite client or sandbox).
+ */
+export type BlueprintTransaction = {
+    /**
+     * Hex-encoded transaction hash.
+     */
+    hash: string;
+    lt: bigint;
+    /**
+     * Unix time of the transaction.
+     */
+    now: number;
+    address: Address;
+    /**
+     * True if the transaction was not aborted, and its compute and action phases (when present) succeeded.
+     */
+    success: boolean;
+    aborted: boolean;
+    /**
+     * Exit code of the compute phase, `undefined` if it was skipped.
+     */
+    exitCode?: number;
+    /**
+     * Result code of the action phase, `undefined` if there was no action phase.
+     */
+    actionResultCode?: number;
+    gasUsed?: bigint;
+    vmSteps?: number;
+    fees: BlueprintTransactionFees;
+    outMessages: BlueprintOutMessage[];
+    /**
+     * The transaction as parsed by `@ton/core`.
+     */
+    raw: Transaction;
+};
+
+/**
+ * Transaction together with the transactions caused by its outgoing internal messages.
+ */
+export type BlueprintTrace = {
+    transaction: BlueprintTransaction;
+    children: BlueprintTrace[];
+};
+
+export function toBlueprintTransaction(transaction: Transaction, address: Address): BlueprintTransaction {
+    const description = transaction.description;
+    const fees: BlueprintTransactionFees = {
+        total: transaction.totalFees.coins,
+        storage: 0n,
+        gas: 0n,
+        forward: 0n,
+        action: 0n,
+    };
+
+    let success = true;
+    let aborted = false;
+    let exitCode: number | undefined;
+    let actionResultCode: number | undefined;
+    let gasUsed: bigint | undefined;
+    let vmSteps: number | undefined;
+
+    if (description.type === 'generic' || description.type === 'tick-tock') {
+        aborted = description.aborted;
+        success = !aborted;
+        fees.storage = description.storagePhase?.storageFeesCollected ?? 0n;
+
+        if (description.computePhase.type === 'vm') {
+            exitCode = description.computePhase.exitCode;
+            gasUsed = description.computePhase.gasUsed;
+            vmSteps = description.computePhase.vmSteps;
+            fees.gas = description.computePhase.gasFees;
+            success &&= description.computePhase.success;
+        }
+
+        if (description.actionPhase) {
+            actionResultCode = description.actionPhase.resultCode;
+            fees.forward = description.actionPhase.totalFwdFees ?? 0n;
+            fees.action = description.actionPhase.totalActionFees ?? 0n;
+            success &&= description.actionPhase.success;
+        }
+    }
+
+    return {
+        hash: transaction.hash().toString('hex'),
+        lt: transaction.lt,
+        now: transaction.now,
+        address,
+        success,
+        aborted,
+        exitCode,
+        actionResultCode,
+        gasUsed,
+        vmSteps,
+        fees,
+        outMessages: transaction.outMessages.values().map((message) => ({
+            destination: message.info.dest ?? null,
+            value: message.info.type === 'internal' ? message.info.value.coins : undefined,
+            bounce: message.info.type === 'internal' ? message.info.bounce : undefined,
+            body: message.body,
+        })),
+        raw: transaction,
+    };
+}
+
+/**
+ * Formats the transaction as human-readable lines for the console.
+ */
+export function formatBlueprintTransaction(transaction: BlueprintTransaction): string {
+    let info = `Tx hash: ${transaction.hash}\n`;
+    info += `LT: ${transaction.lt}\n`;
+    info += `Timestamp: ${new Date(transaction.now * 1000).toISOString()}\n`;
+    info += `Success: ${transaction.success}\n`;
+    if (transaction.aborted) info += `Aborted: true\n`;
+    if (transaction.exitCode !== undefined) info += `Exit code: ${transaction.exitCode}\n`;
+    if (transaction.actionResultCode !== undefined) info += `Action result code: ${transaction.actionResultCode}\n`;
+    if (transaction.gasUsed !== undefined) info += `Gas used: ${transaction.gasUsed}\n`;
+    if (transaction.vmSteps !== undefined) info += `VM steps: ${transaction.vmSteps}\n`;
+    info += `Total fee: ${fromNano(transaction.fees.total)} TON\n`;
+    if (transaction.outMessages.length > 0) info += `Out messages: ${transaction.outMessages.length}\n`;
+
+    return info;
+}
+
+/**
+ * Returns all transactions of the trace in depth-first order, starting with the root.
+ * @example
+ * const trace = await provider.waitForTrace();
+ * const failed = flattenBlueprintTrace(trace).filter((tx) => !tx.success);
+ */
+export function flattenBlueprintTrace(trace: BlueprintTrace): BlueprintTransaction[] {
+    return [trace.transaction, ...trace.children.flatMap(flattenBlueprintTrace)];
+}
+
+/**
+ * Formats the trace as an indented tree with one line per transaction.
+ */
+export function formatBlueprintTrace(trace: BlueprintTrace, depth: number = 0): string {
+    const { transaction } = trace;
+    let line = `${'  '.repeat(depth)}${transaction.success ? '✅' : '❌'} ${transaction.address.toString()}`;
+    if (transaction.exitCode !== undefined) line += ` exit code ${transaction.exitCode}`;
+    if (transaction.actionResultCode !== undefined && transaction.actionResultCode !== 0) {
+        line += `, action result code ${transaction.actionResultCode}`;
+    }
+    line += ` (tx ${transaction.hash})`;
+
+    return [line, ...trace.children.map((child) => formatBlueprintTrace(child, depth + 1))].join('\n');
+}
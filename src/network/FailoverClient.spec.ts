@@ -0,0 +1,78 @@
+import { Address, ContractProvider, TupleReader } from '@ton/core';
+
+import { FailoverClient, FailoverClientMember } from './FailoverClient';
+import { getRetryDeadline, withRetry } from './retry';
+
+const address = Address.parse('EQBAjaOyi2wGWlk-EDkSabqqnF-MrrwMadnwqrurKpkla9nE');
+
+function endpoint(name: string, get: ContractProvider['get']) {
+    const client = { provider: jest.fn(() => ({ get })) } as unknown as FailoverClientMember;
+    return { name, client };
+}
+
+function result(value: number) {
+    return { stack: new TupleReader([{ type: 'int', value: BigInt(value) }]) };
+}
+
+describe('FailoverClient', () => {
+    it('fails over to the next endpoint and keeps using it', async () => {
+        const first = jest.fn().mockRejectedValue(new Error('503'));
+        const second = jest.fn().mockResolvedValue(result(1));
+        const client = new FailoverClient([endpoint('first', first), endpoint('second', second)]);
+
+        const res = await client.provider(address).get('seqno', []);
+        expect(res.stack.readNumber()).toBe(1);
+        expect(client.active().name).toBe('second');
+
+        await client.provider(address).get('seqno', []);
+        expect(first).toHaveBeenCalledTimes(1);
+        expect(second).toHaveBeenCalledTimes(2);
+    });
+
+    it('fails over when a request times out', async () => {
+        const first = jest.fn(() => new Promise<never>(() => {}));
+        const second = jest.fn().mockResolvedValue(result(2));
+        const client = new FailoverClient([endpoint('first', first), endpoint('second', second)], 10);
+
+        const res = await client.provider(address).get('seqno', []);
+        expect(res.stack.readNumber()).toBe(2);
+        expect(client.active().name).toBe('second');
+    });
+
+    it('lets an endpoint retry a slow request before failing over', async () => {
+        const options = { timeout: 100, retry: { attempts: 3, initialDelay: 100, backoff: 2, statusCodes: [429] } };
+        // Fails twice, so that the request takes longer than a single attempt timeout with the backoff delays
+        const attempt = jest
+            .fn()
+            .mockRejectedValueOnce(new Error('429'))
+            .mockRejectedValueOnce(new Error('429'))
+            .mockResolvedValue(result(3));
+        const second = jest.fn().mockResolvedValue(result(4));
+        const client = new FailoverClient(
+            [endpoint('first', () => withRetry(options.retry, attempt)), endpoint('second', second)],
+            getRetryDeadline(options),
+        );
+
+        const res = await client.provider(address).get('seqno', []);
+        expect(res.stack.readNumber()).toBe(3);
+        expect(attempt).toHaveBeenCalledTimes(3);
+        expect(second).not.toHaveBeenCalled();
+        expect(client.active().name).toBe('first');
+    });
+
+    it('reports the errors of all endpoints when every endpoint fails', async () => {
+        const client = new FailoverClient([
+            endpoint('first', jest.fn().mockRejectedValue(new Error('503'))),
+            endpoint('second', jest.fn().mockRejectedValue(new Error('429'))),
+        ]);
+
+        await expect(client.provider(address).get('seqno', [])).rejects.toThrow(
+            'All endpoints failed:\nfirst: 503\nsecond: 429',
+        );
+        expect(client.active().name).toBe('first');
+    });
+
+    it('requires at least one endpoint', () => {
+        expect(() => new FailoverClient([])).toThrow('at least one endpoint');
+    });
+});
@@ -0,0 +1,112 @@
+import { Address, Cell, Contract, ContractProvider, openContract, OpenedContract, Transaction } from '@ton/core';
+import { TonClient, TonClient4 } from '@ton/ton';
+import { ContractAdapter } from '@ton-api/ton-adapter';
+import { LiteClient } from 'ton-lite-client';
+
+import { withTimeout } from './retry';
+
+export type FailoverClientMember = TonClient4 | TonClient | ContractAdapter | LiteClient;
+
+export type FailoverEndpoint = {
+    /**
+     * Name of the endpoint used in error messages, usually its URL.
+     */
+    name: string;
+    client: FailoverClientMember;
+};
+
+type StateInitLike = { code?: Cell | null; data?: Cell | null };
+
+const DEFAULT_FAILOVER_TIMEOUT = 15000;
+
+/**
+ * Client that sends every request to the first healthy endpoint of an ordered list.
+ * When a request fails (an error, a timeout or a 429 response), it is retried on the next endpoint,
+ * which then stays active for the following requests. The timeout covers a request to an endpoint with all its retries.
+ */
+export class FailoverClient {
+    #endpoints: FailoverEndpoint[];
+    #active = 0;
+    #timeout: number;
+
+    constructor(endpoints: FailoverEndpoint[], timeout: number = DEFAULT_FAILOVER_TIMEOUT) {
+        if (endpoints.length === 0) {
+            throw new Error('Failover client requires at least one endpoint');
+        }
+
+        this.#endpoints = endpoints;
+        this.#timeout = timeout;
+    }
+
+    /**
+     * Returns the endpoint the next request will be sent to.
+     */
+    active(): FailoverEndpoint {
+        return this.#endpoints[this.#active];
+    }
+
+    endpoints(): FailoverEndpoint[] {
+        return [...this.#endpoints];
+    }
+
+    async #request<T>(fn: (client: FailoverClientMember) => Promise<T>): Promise<T> {
+        const errors: string[] = [];
+        for (let i = 0; i < this.#endpoints.length; i++) {
+            const index = (this.#active + i) % this.#endpoints.length;
+            const endpoint = this.#endpoints[index];
+            try {
+                const result = await withTimeout(fn(endpoint.client), this.#timeout, endpoint.name);
+                this.#active = index;
+                return result;
+            } catch (e) {
+                errors.push(`${endpoint.name}: ${(e as Error)?.message ?? e}`);
+            }
+        }
+
+        throw new Error(`All endpoints failed:\n${errors.join('\n')}`);
+    }
+
+    provider(address: Address, init?: StateInitLike | null): ContractProvider {
+        const providerOf = (client: FailoverClientMember) =>
+            client.provider(
+                address,
+                init && {
+                    code: init.code ?? undefined,
+                    data: init.data ?? undefined,
+                },
+            );
+
+        return {
+            getState: () => this.#request((client) => providerOf(client).getState()),
+            get: (name, args) => this.#request((client) => providerOf(client).get(name, args)),
+            external: (message) => this.#request((client) => providerOf(client).external(message)),
+            // Internal messages are sent by the wallet, not through the API
+            internal: (via, args) => providerOf(this.active().client).internal(via, args),
+            open: <T extends Contract>(contract: T): OpenedContract<T> =>
+                openContract(contract, (params) => this.provider(params.address, params.init)),
+            getTransactions: (address: Address, lt: bigint, hash: Buffer, limit?: number) =>
+                this.#request((client) => this.#getTransactions(client, address, lt, hash, limit)),
+        };
+    }
+
+    #getTransactions(
+        client: FailoverClientMember,
+        address: Address,
+        lt: bigint,
+        hash: Buffer,
+        limit?: number,
+    ): Promise<Transaction[]> {
+        if (client instanceof TonClient) {
+            // without archival not working with tonclient
+            return client.getTransactions(address, {
+                limit: limit ?? 100,
+                lt: lt.toString(),
+                hash: hash.toString('base64'),
+                inclusive: true,
+                archival: true,
+            });
+        }
+
+        return client.provider(address).getTransactions(address, lt, hash, limit);
+    }
+}
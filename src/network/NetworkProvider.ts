@@ -1,27 +1,75 @@
 import { parseFullConfig, TonClient, TonClient4 } from '@ton/ton';
-import { Address, Cell, Contract, ContractProvider, ContractState, OpenedContract, Sender } from '@ton/core';
+import {
+    Address,
+    Cell,
+    Contract,
+    ContractProvider,
+    ContractState,
+    OpenedContract,
+    Sender,
+    SenderArguments,
+    StateInit,
+} from '@ton/core';
 import { ContractAdapter } from '@ton-api/ton-adapter';
 import { LiteClient } from 'ton-lite-client';
 
 import { UIProvider } from '../ui/UIProvider';
+import { DeploymentRegistry } from './deployments/DeploymentRegistry';
+import { BlueprintTrace, BlueprintTransaction } from './BlueprintTransaction';
+import { FailoverClient } from './FailoverClient';
 
-export type BlueprintTonClient = TonClient4 | TonClient | ContractAdapter | LiteClient;
+/**
+ * The `Blockchain` of `@ton/sandbox` used by the sandbox network, described by the members blueprint relies on,
+ * so that the types do not depend on the optional `@ton/sandbox` package.
+ */
+export interface SandboxClient {
+    provider(address: Address, init?: StateInit | null): ContractProvider;
+    snapshot(): unknown;
+    treasury(seed: string): Promise<unknown>;
+}
+
+export type BlueprintTonClient = TonClient4 | TonClient | ContractAdapter | LiteClient | SandboxClient | FailoverClient;
 
 type BlockchainConfig = ReturnType<typeof parseFullConfig>;
 
 export interface SenderWithSendResult extends Sender {
     readonly lastSendResult?: unknown;
+
+    /**
+     * Sends several messages in a single wallet transaction, paying for one external message instead of one per
+     * message. Wallets v1 accept a single message, v2-v4 up to 4 and v5 up to 255 messages.
+     * ton:// deep links cannot carry several messages, so the deep link sender falls back to one transaction per message.
+     * Optional for other implementations, {@link sendBatch} sends the messages one by one with `send` if it is missing.
+     * @example
+     * await sendBatch(provider.sender(), [
+     *     { to: first, value: toNano('0.05') },
+     *     { to: second, value: toNano('0.05'), body: comment('hello') },
+     * ]);
+     */
+    sendBatch?(messages: SenderArguments[]): Promise<void>;
 }
 
+/**
+ * Result of {@link NetworkProvider.deployIfNeeded}.
+ * `deployed` means the deploy message was sent and confirmed now, `alreadyDeployed` means nothing was sent.
+ */
+export type DeployIfNeededResult = {
+    /**
+     * `ordered` means the deploy message was put into a multisig order, the contract is deployed once it is executed.
+     */
+    status: 'deployed' | 'alreadyDeployed' | 'ordered';
+    address: Address;
+};
+
 /**
  * Interface representing a network provider for interacting with TON blockchain.
  */
 export interface NetworkProvider {
     /**
      * Returns the current network type.
-     * @returns {'mainnet' | 'testnet' | 'custom'} The type of network.
+     * @returns {'mainnet' | 'testnet' | 'custom' | 'sandbox'} The type of network.
      */
-    network(): 'mainnet' | 'testnet' | 'custom';
+    network(): 'mainnet' | 'testnet' | 'custom' | 'sandbox';
 
     /**
      * Returns the sender used for transactions.
@@ -38,11 +86,26 @@ export interface NetworkProvider {
     sender(): SenderWithSendResult;
 
     /**
-     * Returns the underlying TON client API. May be [TonClient4]{@link TonClient4}, [TonClient]{@link TonClient} or [ContractAdapter]{@link ContractAdapter} (TON API)
+     * Returns the underlying TON client API. May be [TonClient4]{@link TonClient4}, [TonClient]{@link TonClient}, [ContractAdapter]{@link ContractAdapter} (TON API), [LiteClient]{@link LiteClient}, `Blockchain` of `@ton/sandbox` (sandbox network) or [FailoverClient]{@link FailoverClient} (custom network with several endpoints)
      * @returns {BlueprintTonClient} The client API used to interact with the network.
      */
     api(): BlueprintTonClient;
 
+    /**
+     * Returns the registry of contracts deployed to the current network, stored in `deployments/<network>.json`.
+     * Every contract opened with {@link open} and confirmed with {@link waitForDeploy} is recorded automatically.
+     * @example
+     * export async function run(provider: NetworkProvider) {
+     *     const deployment = await provider.deployments().get('Counter');
+     *     if (!deployment) {
+     *         throw new Error('Counter is not deployed yet');
+     *     }
+     *     const counter = provider.open(Counter.createFromAddress(deployment.address));
+     * }
+     * @returns {DeploymentRegistry} The deployment registry of the current network.
+     */
+    deployments(): DeploymentRegistry;
+
     /**
      * Returns a contract provider instance for a given address and optional init parameters.
      * @param {Address} address - The address of the contract.
@@ -78,6 +141,8 @@ export interface NetworkProvider {
      * await contract.sendDeploy(provider.sender(), toNano('0.05'));
      * await provider.waitForDeploy(tolkTest.address);
      * // run methods on `contract`
+     * With `--multisig`, the contract is only deployed once the order is executed, so it returns right away
+     * and the deployment is not recorded.
      * @returns {Promise<void>} A promise that resolves when the contract is deployed or the attempts are exhausted.
      */
     waitForDeploy(address: Address, attempts?: number, sleepDuration?: number): Promise<void>;
@@ -88,11 +153,33 @@ export interface NetworkProvider {
      * @param {number} [attempts=20] - Maximum number of attempts to check for the last transaction.
      * @param {number} [sleepDuration=2000] - Duration to wait between attempts, in milliseconds.
      * @example
-     * await contract.sendDeploy(provider.sender(), toNano('0.05'));
-     * await provider.waitForLastTransaction();
-     * @returns {Promise<void>} A promise that resolves when the last transaction is confirmed or attempts are exhausted.
+     * await counter.sendIncrease(provider.sender(), { increaseBy: 1, value: toNano('0.05') });
+     * const tx = await provider.waitForLastTransaction();
+     * if (!tx.success) {
+     *     throw new Error(`Wallet transaction failed with exit code ${tx.exitCode}`);
+     * }
+     * @returns {Promise<BlueprintTransaction>} A promise that resolves to the sender's wallet transaction once it is confirmed
+     * (with `--multisig`, the transaction of the wallet that created the order). Rejects if attempts are exhausted.
+     */
+    waitForLastTransaction(attempts?: number, sleepDuration?: number): Promise<BlueprintTransaction>;
+
+    /**
+     * Waits for the whole cascade of messages caused by a send to be processed.
+     * Starting from the wallet transaction, follows every outgoing internal message to the transaction it caused on
+     * the destination account, until no messages are left in flight.
+     * @param {unknown} [sendResult] - Result of the send to follow, defaults to `sender().lastSendResult`.
+     * @param {number} [attempts=20] - Maximum number of attempts to find each transaction of the trace.
+     * @param {number} [sleepDuration=2000] - Duration to wait between attempts, in milliseconds.
+     * @example
+     * await jettonWallet.sendTransfer(provider.sender(), { ... });
+     * const trace = await provider.waitForTrace();
+     * const failed = flattenBlueprintTrace(trace).filter((tx) => !tx.success);
+     * if (failed.length > 0) {
+     *     throw new Error(`Transfer failed with exit code ${failed[0].exitCode}`);
+     * }
+     * @returns {Promise<BlueprintTrace>} A promise that resolves to the tree of transactions, rooted at the wallet transaction.
      */
-    waitForLastTransaction(attempts?: number, sleepDuration?: number): Promise<void>;
+    waitForTrace(sendResult?: unknown, attempts?: number, sleepDuration?: number): Promise<BlueprintTrace>;
 
     /**
      * Retrieves the state of a contract at the specified address.
@@ -128,10 +215,33 @@ export interface NetworkProvider {
     /**
      * @deprecated
      *
-     * Use your Contract's `sendDeploy` method (or similar) together with `waitForDeploy` instead.
+     * Use your Contract's `sendDeploy` method (or similar) together with `waitForDeploy`, or `deployIfNeeded` instead.
      */
     deploy(contract: Contract, value: bigint, body?: Cell, waitAttempts?: number): Promise<void>;
 
+    /**
+     * Deploys a contract unless it is already active, so that deploy scripts can be safely re-run.
+     * The address is computed from the contract's `init`, the deploy message is sent only if the account is not active
+     * and the deployment is awaited with {@link waitForDeploy}.
+     * @param {Contract} contract - The contract to deploy, must have `init`.
+     * @param {bigint} value - Amount of TON to send with the deploy message.
+     * @param {Cell} [body] - Optional body of the deploy message.
+     * @param {number} [waitAttempts=20] - Maximum number of attempts to check for deployment.
+     * @example
+     * const counter = Counter.createFromConfig({ id: 0, counter: 0 }, await compile('Counter'));
+     * const result = await provider.deployIfNeeded(counter, toNano('0.05'));
+     * if (result.status === 'alreadyDeployed') {
+     *     provider.ui().write('Counter is already deployed, skipping');
+     * }
+     * @returns {Promise<DeployIfNeededResult>} Whether the contract was deployed now or had already been deployed.
+     */
+    deployIfNeeded(
+        contract: Contract,
+        value: bigint,
+        body?: Cell,
+        waitAttempts?: number,
+    ): Promise<DeployIfNeededResult>;
+
     /**
      * Opens a contract instance for interaction.
      * @param {T} contract - The contract instance to open.
@@ -0,0 +1,136 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+
+import type { Address } from '@ton/core';
+
+import { Args } from '../cli/Runner';
+import { NetworkProvider } from './NetworkProvider';
+import { BufferedUIProvider } from '../ui/BufferedUIProvider';
+import { flattenBlueprintTrace } from './BlueprintTransaction';
+
+jest.mock('../utils/timer.utils', () => ({
+    sleep: jest.fn(() => Promise.resolve()),
+}));
+
+describe('sandbox network provider', () => {
+    const cwd = process.cwd();
+    let dir: string;
+    let core: typeof import('@ton/core');
+    let sleep: jest.Mock;
+    let ui: BufferedUIProvider;
+    let provider: NetworkProvider;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blueprint-provider-'));
+        process.chdir(dir);
+        // Project paths are resolved against the working directory when the modules are loaded,
+        // @ton/core is loaded again so that its classes match the ones used by the provider
+        jest.resetModules();
+        core = await import('@ton/core');
+        sleep = (await import('../utils/timer.utils')).sleep as jest.Mock;
+        const { createNetworkProvider } = await import('./createNetworkProvider');
+
+        ui = new BufferedUIProvider();
+        provider = await createNetworkProvider(ui, { _: [], '--sandbox': true } as Args);
+    });
+
+    afterEach(async () => {
+        process.chdir(cwd);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('fails a deploy that failed in the sandbox without polling', async () => {
+        const { beginCell, contractAddress, toNano } = core;
+        // THROW 42
+        const init = { code: beginCell().storeUint(0xf22a, 16).endCell(), data: beginCell().endCell() };
+        const address = contractAddress(0, init);
+
+        await provider.sender().send({ to: address, value: toNano('1'), init, bounce: false });
+
+        await expect(provider.waitForDeploy(address)).rejects.toThrow(
+            `Deploy of contract ${address.toString()} failed`,
+        );
+        await expect(provider.waitForDeploy(address)).rejects.toThrow('Exit code: 42');
+        expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('fails a deploy of a contract that was not sent to without polling', async () => {
+        const address = new core.Address(0, Buffer.alloc(32, 1));
+
+        await expect(provider.waitForDeploy(address)).rejects.toThrow('the last sent message did not reach it');
+        expect(sleep).not.toHaveBeenCalled();
+    });
+
+    describe('waitForTrace', () => {
+        // Forwards the value of every message to the address stored in its data, ignores bounced messages
+        const RELAY = `
+fun onInternalMessage(myBalance: int, msgValue: int, msgFull: cell, msgBody: slice) {
+    var cs = msgFull.beginParse();
+    if (isMessageBounced(cs.loadMessageFlags())) {
+        return;
+    }
+    sendRawMessage(beginCell().storeUint(0x18, 6).storeSlice(contract.getData().beginParse()).storeCoins(0).storeUint(0, 1 + 4 + 4 + 64 + 32 + 1 + 1).endCell(), SEND_MODE_CARRY_ALL_REMAINING_MESSAGE_VALUE);
+}
+`;
+        let relay: Address;
+        let failing: Address;
+
+        beforeEach(async () => {
+            const { beginCell, Cell, contractAddress, toNano } = core;
+            const { runTolkCompiler } = await import('@ton/tolk-js');
+            const result = await runTolkCompiler({ entrypointFileName: 'relay.tolk', fsReadCallback: () => RELAY });
+            if (result.status !== 'ok') {
+                throw new Error(result.message);
+            }
+
+            // THROW 42, the contract stays active after its deploy fails
+            const failingInit = { code: beginCell().storeUint(0xf22a, 16).endCell(), data: beginCell().endCell() };
+            failing = contractAddress(0, failingInit);
+            await provider.sender().send({ to: failing, value: toNano('1'), init: failingInit, bounce: false });
+
+            const relayInit = {
+                code: Cell.fromBase64(result.codeBoc64),
+                data: beginCell().storeAddress(failing).endCell(),
+            };
+            relay = contractAddress(0, relayInit);
+            await provider.sender().send({ to: relay, value: toNano('1'), init: relayInit, bounce: false });
+        }, 60000);
+
+        it('follows the cascade through a failing hop and its bounce', async () => {
+            const wallet = provider.sender().address!;
+
+            const trace = await provider.waitForTrace();
+
+            const transactions = flattenBlueprintTrace(trace);
+            expect(transactions.map((tx) => tx.address.toString())).toEqual(
+                [wallet, relay, failing, relay].map((address) => address.toString()),
+            );
+            expect(transactions.map((tx) => tx.success)).toEqual([true, true, false, true]);
+            expect(transactions.map((tx) => tx.exitCode)).toEqual([0, 0, 42, 0]);
+
+            const [, forward, failed, bounce] = transactions;
+            expect(failed.outMessages).toHaveLength(1);
+            expect(failed.outMessages[0].destination?.toString()).toBe(relay.toString());
+            expect(bounce.raw.inMessage?.info.type === 'internal' && bounce.raw.inMessage.info.bounced).toBe(true);
+
+            for (const tx of transactions) {
+                expect(tx.fees.total).toBe(tx.raw.totalFees.coins);
+            }
+            expect(forward.fees.forward).toBeGreaterThan(0n);
+            expect(failed.fees.gas).toBeGreaterThan(0n);
+
+            expect(trace.children[0].children[0].children[0].transaction).toBe(bounce);
+            expect(ui.messages.join('\n')).toContain(`❌ ${failing.toString()} exit code 42`);
+            expect(sleep).not.toHaveBeenCalled();
+        });
+
+        it('fails if a message of the cascade was not processed', async () => {
+            const sendResult = provider.sender().lastSendResult as { transactions: unknown[] };
+
+            await expect(provider.waitForTrace({ transactions: sendResult.transactions.slice(0, 1) })).rejects.toThrow(
+                `to ${relay.toString()} was not processed`,
+            );
+        });
+    });
+});
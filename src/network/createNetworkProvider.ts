@@ -1,4 +1,5 @@
 import path from 'path';
+import fs from 'fs/promises';
 
 import arg from 'arg';
 import {
@@ -7,9 +8,11 @@ import {
     comment,
     Contract,
     ContractProvider,
+    contractAddress,
     ContractState,
     Dictionary,
     loadMessage,
+    Message,
     openContract,
     OpenedContract,
     Sender,
@@ -25,8 +28,8 @@ import { parseFullConfig, TonClient, TonClient4 } from '@ton/ton';
 import { ContractAdapter } from '@ton-api/ton-adapter';
 import { TonApiClient } from '@ton-api/client';
 import { mnemonicToPrivateKey } from '@ton/crypto';
-import axios, { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
-import { LiteClient, LiteRoundRobinEngine, LiteSingleEngine } from 'ton-lite-client';
+import axios from 'axios';
+import { LiteClient, LiteSingleEngine } from 'ton-lite-client';
 
 import {
     getExplorerLink,
@@ -39,35 +42,72 @@ import {
 import { DeeplinkProvider } from './send/DeeplinkProvider';
 import { TonConnectProvider } from './send/TonConnectProvider';
 import { UIProvider } from '../ui/UIProvider';
-import { BlueprintTonClient, NetworkProvider, SenderWithSendResult } from './NetworkProvider';
+import { BlueprintTonClient, DeployIfNeededResult, NetworkProvider, SenderWithSendResult } from './NetworkProvider';
 import { SendProvider } from './send/SendProvider';
 import { FSStorage } from './storage/FSStorage';
 import { TEMP_DIR } from '../paths';
 import { MnemonicProvider } from './send/MnemonicProvider';
+import { ExternalSignerProvider } from './send/ExternalSignerProvider';
+import { MultisigProvider, NEW_ORDER_VALUE } from './send/MultisigProvider';
+import { findKey, listKeys, unlockKey } from './keystore/Keystore';
 import { Config } from '../config/Config';
 import { CustomNetwork } from '../config/CustomNetwork';
+import { LiteServerConfig } from '../config/LiteServerConfig';
+import { FailoverClient, FailoverClientMember } from './FailoverClient';
+import { findTransactionByExtMessageHash, getLastTransactions } from './transactions';
+import { CONFIG_ADDRESS, estimateMessageFees, formatSendConfirmation, getConfigCell, MessageFeeEstimate } from './fees';
+import {
+    ClientOptions,
+    createRetryingFetch,
+    createRetryingHttpAdapter,
+    createRetryingLiteEngine,
+    getRetryDeadline,
+    resolveRetryConfig,
+} from './retry';
 import { Network } from './Network';
-import { WalletVersion } from './send/wallets';
-
-const TONAPI_MAINNET = 'https://tonapi.io';
-const TONAPI_TESTNET = 'https://testnet.tonapi.io';
-const MAX_TONAPI_ATTEMPTS = 5;
-
-const INITIAL_DELAY = 400;
-const MAX_ATTEMPTS = 4;
-const CONFIG_ADDRESS = Address.parse('-1:5555555555555555555555555555555555555555555555555555555555555555');
+import { subwalletParams, WalletContractParams, WalletVersion } from './send/wallets';
+import { SandboxProvider } from './send/SandboxProvider';
+import { createSandboxBlockchain, isSandboxBlockchain } from './sandbox/sandbox';
+import { loadSandboxState } from './sandbox/state';
+import { DeploymentRegistry, findBuildArtifactName } from './deployments/DeploymentRegistry';
+import {
+    BlueprintTrace,
+    BlueprintTransaction,
+    formatBlueprintTrace,
+    formatBlueprintTransaction,
+    toBlueprintTransaction,
+} from './BlueprintTransaction';
+
+const MAX_VERIFY_ATTEMPTS = 5;
+
+const LITESERVER_GLOBAL_CONFIGS = {
+    mainnet: 'https://ton.org/global.config.json',
+    testnet: 'https://ton.org/testnet-global.config.json',
+};
 
 export const argSpec = {
     '--mainnet': Boolean,
     '--testnet': Boolean,
+    '--sandbox': Boolean,
     '--custom': String,
     '--custom-type': String,
     '--custom-version': String,
     '--custom-key': String,
 
+    '--liteserver': Boolean,
+    '--liteserver-config': String,
+    '--liteserver-index': String,
+
     '--tonconnect': Boolean,
     '--deeplink': Boolean,
     '--mnemonic': Boolean,
+    '--signer': String,
+    '--multisig': String,
+    '--wallet-version': String,
+    '--workchain': Number,
+    '--subwallet': Number,
+    '--key': String,
+    '--yes': Boolean,
 
     '--tonscan': Boolean,
     '--tonviewer': Boolean,
@@ -81,61 +121,27 @@ type Explorer = 'tonscan' | 'tonviewer' | 'toncx' | 'dton';
 
 type ContractProviderFactory = (params: { address: Address; init?: StateInit | null }) => ContractProvider;
 
-// Расширяем тип ContractAdapter, добавляя отсутствующие свойства
-interface ExtendedTonApiClient {
-    blockchain: {
-        getAccountTransactions: (
-            address: string,
-            options: { limit: number },
-        ) => Promise<{ transactions: Array<Record<string, unknown>> }>;
-    };
+/**
+ * Internal messages are identified by their source and creation lt.
+ */
+function isTransactionCausedBy(transaction: Transaction, message: Message): boolean {
+    const inMessage = transaction.inMessage;
+    return (
+        inMessage?.info.type === 'internal' &&
+        message.info.type === 'internal' &&
+        inMessage.info.src.equals(message.info.src) &&
+        inMessage.info.createdLt === message.info.createdLt
+    );
 }
 
-interface ExtendedContractAdapter extends ContractAdapter {
-    client: ExtendedTonApiClient;
-}
-
-// Изменяем подход к типизации TonClient, вместо расширения интерфейса используем привидение типа
-type _TransactionOptions = {
-    limit: number;
-    lt?: string;
-    hash?: string;
-    to_lt?: string;
-    inclusive?: boolean;
-    archival?: boolean;
-};
-
-// Определяем структуру для fees
-interface TransactionFees {
-    gas_fee?: string | bigint;
-    storage_fee?: string | bigint;
-    forward_fee?: string | bigint;
-    total_fee?: string | bigint;
-    total_fees?: string | bigint;
-}
-
-// Определяем минимальную структуру транзакции
-type TransactionType = {
-    hash?: string | (() => Buffer<ArrayBufferLike>);
-    transaction_id?: { hash: string | (() => Buffer<ArrayBufferLike>); lt: string | bigint | (() => bigint) };
-    lt?: string | bigint | (() => bigint);
-    utime?: number;
-    timestamp?: number;
-    total_fees?: string | bigint;
-    fees?: TransactionFees;
-    status?: string;
-    compute?: {
-        exit_code?: number;
-        exit_arg?: number | string;
-        gas_used?: number | string;
-        vm_steps?: number | string;
-    };
-    success?: boolean;
-    aborted?: boolean;
-};
+/**
+ * Called with the messages before they are sent, throws to cancel the sending.
+ */
+type SendConfirmation = (messages: SenderArguments[], sendMode: SendMode) => Promise<void>;
 
 class SendProviderSender implements SenderWithSendResult {
     #provider: SendProvider;
+    #confirm?: SendConfirmation;
     readonly address?: Address;
 
     #lastSendResult?: unknown;
@@ -143,32 +149,64 @@ class SendProviderSender implements SenderWithSendResult {
         return this.#lastSendResult;
     }
 
-    constructor(provider: SendProvider) {
+    constructor(provider: SendProvider, confirm?: SendConfirmation) {
         this.#provider = provider;
+        this.#confirm = confirm;
         this.address = provider.address();
     }
 
     async send(args: SenderArguments): Promise<void> {
-        if (args.bounce !== undefined) {
-            console.warn(
-                "Warning: blueprint's Sender does not support `bounce` flag, because it is ignored by all used Sender APIs",
-            );
-            console.warn('To silence this warning, change your `bounce` flags passed to Senders to unset or undefined');
-        }
-
-        if (!(args.sendMode === undefined || args.sendMode === SendMode.PAY_GAS_SEPARATELY)) {
-            throw new Error('Deployer sender does not support `sendMode` other than `PAY_GAS_SEPARATELY`');
-        }
-
+        await this.#confirm?.([args], args.sendMode ?? SendMode.PAY_GAS_SEPARATELY);
         this.#lastSendResult = await this.#provider.sendTransaction(
             args.to,
             args.value,
             args.body ?? undefined,
             args.init ?? undefined,
+            {
+                sendMode: args.sendMode ?? undefined,
+                bounce: args.bounce ?? undefined,
+            },
+        );
+    }
+
+    async sendBatch(messages: SenderArguments[]): Promise<void> {
+        if (messages.length === 0) {
+            throw new Error('Batch must contain at least one message');
+        }
+
+        // Wallets apply one send mode to all messages of a transfer
+        const sendMode = messages[0].sendMode ?? undefined;
+        if (messages.some((args) => (args.sendMode ?? undefined) !== sendMode)) {
+            throw new Error('All messages in a batch must use the same `sendMode`');
+        }
+        await this.#confirm?.(messages, sendMode ?? SendMode.PAY_GAS_SEPARATELY);
+
+        this.#lastSendResult = await this.#provider.sendBatch(
+            messages.map((args) => ({
+                address: args.to,
+                amount: args.value,
+                payload: args.body ?? undefined,
+                stateInit: args.init ?? undefined,
+                bounce: args.bounce ?? undefined,
+            })),
+            sendMode,
         );
     }
 }
 
+class ReadOnlySender implements SenderWithSendResult {
+    readonly address?: Address;
+    readonly lastSendResult?: unknown;
+
+    async send(): Promise<void> {
+        throw new Error('This network provider was created without a wallet and cannot send transactions');
+    }
+
+    async sendBatch(): Promise<void> {
+        throw new Error('This network provider was created without a wallet and cannot send transactions');
+    }
+}
+
 class WrappedContractProvider implements ContractProvider {
     #address: Address;
     #provider: ContractProvider;
@@ -233,6 +271,9 @@ class NetworkProviderImpl implements NetworkProvider {
     #network: Network;
     #explorer: Explorer;
     #ui: UIProvider;
+    #deployments: DeploymentRegistry;
+    #openedContracts = new Map<string, { name: string; code: Cell; data: Cell }>();
+    #sendsMultisigOrders: boolean;
 
     constructor(
         tc: BlueprintTonClient,
@@ -240,15 +281,18 @@ class NetworkProviderImpl implements NetworkProvider {
         network: Network,
         explorer: Explorer,
         ui: UIProvider,
+        sendsMultisigOrders: boolean = false,
     ) {
         this.#tc = tc;
         this.#sender = sender;
         this.#network = network;
         this.#explorer = explorer;
         this.#ui = ui;
+        this.#sendsMultisigOrders = sendsMultisigOrders;
+        this.#deployments = new DeploymentRegistry(network);
     }
 
-    network(): 'mainnet' | 'testnet' | 'custom' {
+    network(): 'mainnet' | 'testnet' | 'custom' | 'sandbox' {
         return this.#network;
     }
 
@@ -264,6 +308,10 @@ class NetworkProviderImpl implements NetworkProvider {
         return this.#tc;
     }
 
+    deployments(): DeploymentRegistry {
+        return this.#deployments;
+    }
+
     provider(address: Address, init?: StateInit | null): ContractProvider {
         const factory = (params: { address: Address; init?: StateInit | null }) =>
             this.#tc.provider(
@@ -283,130 +331,38 @@ class NetworkProviderImpl implements NetworkProvider {
 
     async verifyTransactionStatus(
         address: Address,
-    ): Promise<{ success: boolean; error?: string; tx?: TransactionType }> {
-        try {
-            const client = this.#tc;
-            let txs: TransactionType[] = [];
-            let attempts = 0;
-            const limit = 1;
-
-            if (client instanceof ContractAdapter) {
-                while (attempts < MAX_TONAPI_ATTEMPTS) {
-                    try {
-                        const extendedClient = client as ExtendedContractAdapter;
-                        const resp = await extendedClient.client.blockchain.getAccountTransactions(address.toString(), {
-                            limit,
-                        });
-                        txs = (resp.transactions as unknown as TransactionType[]) || [];
-                        if (txs.length > 0) break;
-                    } catch (_e) {
-                        // Игнорируем ошибку и повторяем попытку
-                    }
-                    await sleep(2000);
-                    attempts++;
-                }
-            } else if (client instanceof TonClient || client instanceof TonClient4) {
-                while (attempts < MAX_TONAPI_ATTEMPTS) {
-                    try {
-                        // Вместо приведения типов используем проверенный метод с правильными аргументами
-                        // TonClient и TonClient4 имеют разные сигнатуры для getTransactions
-                        if (client instanceof TonClient) {
-                            txs = (await client.getTransactions(address, {
-                                limit,
-                                // Другие параметры могут быть добавлены при необходимости
-                            })) as unknown as TransactionType[];
-                        } else {
-                            // Для TonClient4 используем правильную сигнатуру метода
-                            txs = (await (client as TonClient4).getAccountTransactions(
-                                address,
-                                0n,
-                                Buffer.alloc(32),
-                            )) as unknown as TransactionType[];
-                        }
-                        if (txs.length > 0) break;
-                    } catch (_e) {
-                        // Игнорируем ошибку и повторяем попытку
-                    }
-                    await sleep(2000);
-                    attempts++;
-                }
-            } else {
-                return { success: true };
+    ): Promise<{ success: boolean; error?: string; tx?: BlueprintTransaction }> {
+        let transactions: Transaction[] = [];
+        for (let attempt = 0; attempt < MAX_VERIFY_ATTEMPTS && transactions.length === 0; attempt++) {
+            try {
+                transactions = await this.getLastTransactions(address);
+            } catch (_e) {
+                // Ignore the error and retry
             }
-
-            if (txs.length > 0) {
-                const tx = txs[0];
-                const exitCode = tx.compute?.exit_code;
-                const exitArg = tx.compute?.exit_arg;
-
-                let txHash = tx.hash || tx.transaction_id?.hash;
-                if (typeof txHash === 'function') {
-                    try {
-                        txHash = txHash().toString('hex');
-                    } catch (_e) {
-                        txHash = undefined;
-                    }
-                }
-
-                let lt = tx.lt || tx.transaction_id?.lt;
-                if (typeof lt === 'function') {
-                    try {
-                        lt = lt();
-                    } catch (_e) {
-                        lt = undefined;
-                    }
-                }
-
-                const timestamp = tx.utime || tx.timestamp;
-                const fees = tx.total_fees || tx.fees;
-                const status = tx.status;
-                let explorerTxLink = '';
-                if (txHash && this.#network && this.#explorer) {
-                    explorerTxLink = getExplorerTxLink(
-                        typeof txHash === 'string' ? txHash : '',
-                        this.#network,
-                        this.#explorer,
-                    );
-                }
-                if (
-                    (typeof status === 'string' && status === 'failed') ||
-                    (exitCode !== undefined && exitCode !== 0 && exitCode !== 1)
-                ) {
-                    let errorMsg = `Transaction failed.\n`;
-                    errorMsg += `Exit code: ${exitCode ?? 'unknown'}\n`;
-                    if (exitArg !== undefined) errorMsg += `Exit arg: ${exitArg}\n`;
-                    if (status) errorMsg += `Status: ${status}\n`;
-                    if (txHash) errorMsg += `Tx hash: ${txHash}\n`;
-                    if (lt) errorMsg += `LT: ${lt}\n`;
-                    if (timestamp) errorMsg += `Timestamp: ${new Date(timestamp * 1000).toISOString()}\n`;
-                    if (fees) errorMsg += `Fees: ${JSON.stringify(fees)}\n`;
-                    if (explorerTxLink) errorMsg += `Explorer: ${explorerTxLink}\n`;
-                    return {
-                        success: false,
-                        error: errorMsg,
-                        tx: tx,
-                    };
-                }
-                return { success: true, tx: tx };
+            if (transactions.length === 0) {
+                await sleep(2000);
             }
+        }
+
+        if (transactions.length === 0) {
             return { success: true };
-        } catch (error) {
-            console.warn('Failed to verify transaction status via TonClient/TonApiClient:', error);
-            return { success: true };
         }
+
+        const tx = toBlueprintTransaction(transactions[0], address);
+        if (!tx.success) {
+            let error = `Transaction failed.\n${formatBlueprintTransaction(tx)}`;
+            const explorerTxLink = getExplorerTxLink(tx.hash, this.#network, this.#explorer);
+            if (explorerTxLink) error += `Explorer: ${explorerTxLink}\n`;
+            return { success: false, error, tx };
+        }
+
+        return { success: true, tx };
     }
 
     async getConfig(address: Address = CONFIG_ADDRESS) {
-        const state = await this.getContractState(address);
-        if (state.state.type !== 'active' || !state.state.data) {
-            throw new Error('Configuration contract not active');
-        }
+        const configCell = isSandboxBlockchain(this.#tc) ? this.#tc.config : await getConfigCell(this.#tc, address);
 
-        const paramsDict = Cell.fromBoc(state.state.data)[0]
-            .beginParse()
-            .loadRef()
-            .beginParse()
-            .loadDictDirect(Dictionary.Keys.Int(32), Dictionary.Values.Cell());
+        const paramsDict = Dictionary.loadDirect(Dictionary.Keys.Int(32), Dictionary.Values.Cell(), configCell);
 
         const params = new Map<number, Slice>();
         for (const [key, value] of paramsDict) {
@@ -425,6 +381,31 @@ class NetworkProviderImpl implements NetworkProvider {
             throw new Error('Attempt number must be positive');
         }
 
+        if (this.#sendsMultisigOrders) {
+            // The deploy message is only sent by the multisig once the order is approved, which may take days
+            this.#ui.write(
+                `Contract ${address.toString()} will be deployed once the multisig order is approved and executed, not waiting for it`,
+            );
+            return;
+        }
+
+        if (this.#network === 'sandbox') {
+            // Sandbox processes the whole message chain synchronously, the outcome of the deploy is already known
+            const transaction = this.findSandboxTransaction(address);
+            const tx = transaction && toBlueprintTransaction(transaction, address);
+            if (tx !== undefined && !tx.success) {
+                throw new Error(`Deploy of contract ${address.toString()} failed:\n${formatBlueprintTransaction(tx)}`);
+            }
+            if (!(await this.isContractDeployed(address))) {
+                throw new Error(
+                    `Contract ${address.toString()} was not deployed, the last sent message did not reach it`,
+                );
+            }
+            this.#ui.write(`✅ Contract deployed at address ${address.toString()}`);
+            await this.recordDeployment(address, tx?.hash);
+            return;
+        }
+
         for (let i = 1; i <= attempts; i++) {
             this.#ui.setActionPrompt(`Awaiting contract deployment... [Attempt ${i}/${attempts}]`);
             const isDeployed = await this.isContractDeployed(address);
@@ -447,117 +428,12 @@ class NetworkProviderImpl implements NetworkProvider {
                     `You can view it at ${getExplorerLink(address.toString(), this.#network, this.#explorer)}`,
                 );
                 if (txStatus.tx) {
-                    const tx = txStatus.tx;
-
-                    let txHash = tx.hash || tx.transaction_id?.hash;
-                    if (typeof txHash === 'function') {
-                        try {
-                            txHash = txHash().toString('hex');
-                        } catch (_e) {
-                            txHash = undefined;
-                        }
-                    }
-
-                    // If we have the transaction hash, check its status directly via TonAPI
-                    if (txHash) {
-                        this.#ui.setActionPrompt(`Verifying transaction status...`);
-                        const specificTxStatus = await this.verifyTransactionByHash(
-                            typeof txHash === 'string' ? txHash : '',
-                        );
-
-                        // If TonAPI returned an error for this transaction, report it
-                        if (!specificTxStatus.success) {
-                            this.#ui.clearActionPrompt();
-                            this.#ui.write(
-                                `⚠️ Warning: Transaction verification via TonAPI indicates problems:\n${specificTxStatus.error}`,
-                            );
-                            // Do not interrupt execution, as the contract is already deployed
-                        } else if (specificTxStatus.tx) {
-                            // If we got more accurate information, use it
-                            tx.status = specificTxStatus.tx.status;
-                            tx.compute = specificTxStatus.tx.compute;
-                            tx.success = specificTxStatus.tx.success;
-                            tx.aborted = specificTxStatus.tx.aborted;
-                            // Update detailed information if available
-                            if (specificTxStatus.tx.fees) tx.fees = specificTxStatus.tx.fees;
-                            if (specificTxStatus.tx.utime) tx.utime = specificTxStatus.tx.utime;
-                        }
-                        this.#ui.clearActionPrompt();
-                    }
-
-                    let lt = tx.lt || tx.transaction_id?.lt;
-                    if (typeof lt === 'function') {
-                        try {
-                            lt = lt();
-                        } catch (_e) {
-                            lt = undefined;
-                        }
-                    }
-
-                    const timestamp = tx.utime || tx.timestamp;
-                    const fees = tx.total_fees || tx.fees;
-                    let explorerTxLink = '';
-                    if (txHash && this.#network && this.#explorer) {
-                        explorerTxLink = getExplorerTxLink(
-                            typeof txHash === 'string' ? txHash : '',
-                            this.#network,
-                            this.#explorer,
-                        );
-                    }
-
-                    // Form detailed transaction information
-                    let info = '';
-                    if (txHash) info += `Tx hash: ${txHash}\n`;
-                    if (lt) info += `LT: ${lt}\n`;
-                    if (timestamp) info += `Timestamp: ${new Date(timestamp * 1000).toISOString()}\n`;
-
-                    // Add transaction status
-                    if (tx.success !== undefined) {
-                        info += `Success: ${tx.success}\n`;
-                    }
-
-                    // Add exit code if available
-                    if (tx.compute?.exit_code !== undefined) {
-                        info += `Exit code: ${tx.compute.exit_code}\n`;
-                    }
-
-                    // Add status (nonexist → active and so on)
-                    if (tx.status) {
-                        info += `Status: ${tx.status}\n`;
-                    }
-
-                    // Add aborted flag
-                    if (tx.aborted !== undefined) {
-                        info += `Aborted: ${tx.aborted}\n`;
-                    }
-
-                    // Add information about gas and VM steps
-                    if (tx.compute?.gas_used !== undefined) {
-                        info += `Gas used: ${tx.compute.gas_used}\n`;
-                    }
-
-                    if (tx.compute?.vm_steps !== undefined) {
-                        info += `VM steps: ${tx.compute.vm_steps}\n`;
-                    }
-
-                    // Add detailed information about fees
-                    if (fees) {
-                        if (typeof fees === 'object' && fees !== null) {
-                            // Output detailed information about different types of fees
-                            const feesObj = fees as TransactionFees;
-                            if (feesObj.gas_fee) info += `Gas fee: ${feesObj.gas_fee}\n`;
-                            if (feesObj.storage_fee) info += `Storage fee: ${feesObj.storage_fee}\n`;
-                            if (feesObj.forward_fee) info += `Forward fee: ${feesObj.forward_fee}\n`;
-                            if (feesObj.total_fee || feesObj.total_fees)
-                                info += `Total fee: ${feesObj.total_fee || feesObj.total_fees}\n`;
-                        } else {
-                            info += `Fees: ${fees}\n`;
-                        }
-                    }
-
+                    let info = formatBlueprintTransaction(txStatus.tx);
+                    const explorerTxLink = getExplorerTxLink(txStatus.tx.hash, this.#network, this.#explorer);
                     if (explorerTxLink) info += `Explorer: ${explorerTxLink}\n`;
-                    if (info) this.#ui.write(info);
+                    this.#ui.write(info);
                 }
+                await this.recordDeployment(address, txStatus.tx?.hash);
                 return;
             }
             await sleep(sleepDuration);
@@ -567,67 +443,106 @@ class NetworkProviderImpl implements NetworkProvider {
         throw new Error("Contract was not deployed. Check your wallet's transactions");
     }
 
-    private obtainInMessageHash() {
+    private trackContract(contract: Contract) {
+        if (contract.init?.code && contract.init.data) {
+            this.#openedContracts.set(contract.address.toRawString(), {
+                name: contract.constructor.name,
+                code: contract.init.code,
+                data: contract.init.data,
+            });
+        }
+    }
+
+    private findSandboxTransaction(address: Address): Transaction | undefined {
         const { lastSendResult } = this.#sender;
         if (
-            typeof lastSendResult === 'object' &&
-            lastSendResult !== null &&
-            'boc' in lastSendResult &&
-            typeof lastSendResult.boc === 'string'
+            typeof lastSendResult !== 'object' ||
+            lastSendResult === null ||
+            !('transactions' in lastSendResult) ||
+            !Array.isArray(lastSendResult.transactions)
         ) {
-            const cell = Cell.fromBase64(lastSendResult.boc);
-            const extMessage = loadMessage(cell.beginParse());
-            return getNormalizedExtMessageHash(extMessage);
+            return undefined;
         }
 
-        throw new Error('Not implemented');
+        const accountHash = BigInt('0x' + address.hash.toString('hex'));
+        return (lastSendResult.transactions as Transaction[]).find((tx) => tx.address === accountHash);
     }
 
-    private async getLastTransactions(address: Address): Promise<Transaction[]> {
-        if (this.#tc instanceof TonClient) {
-            return this.#tc.getTransactions(address, { limit: 100, archival: true }); // without archival not working with tonclient
+    private async recordDeployment(address: Address, txHash?: string) {
+        const contract = this.#openedContracts.get(address.toRawString());
+        if (!contract) {
+            // Contracts deployed without `provider.open` have unknown code and data, nothing to record
+            return;
+        }
+
+        try {
+            const codeHash = contract.code.hash();
+            await this.#deployments.record({
+                name: (await findBuildArtifactName(codeHash)) ?? contract.name,
+                address,
+                codeHash: codeHash.toString('hex'),
+                dataHash: contract.data.hash().toString('hex'),
+                txHash,
+                deployedAt: new Date(),
+            });
+            this.#ui.write(`Recorded deployment to ${path.relative(process.cwd(), this.#deployments.path())}`);
+        } catch (e) {
+            this.#ui.write(`⚠️ Could not record deployment: ${(e as Error).message}`);
+        }
+    }
+
+    private obtainExternalMessage(sendResult: unknown = this.#sender.lastSendResult): Message {
+        if (
+            typeof sendResult === 'object' &&
+            sendResult !== null &&
+            'boc' in sendResult &&
+            typeof sendResult.boc === 'string'
+        ) {
+            return loadMessage(Cell.fromBase64(sendResult.boc).beginParse());
         }
 
-        const provider = this.#tc.provider(address);
-        const { last } = await provider.getState();
-        if (!last) {
-            return [];
+        throw new Error('Not implemented');
+    }
+
+    private reportSandboxTransaction(address: Address): BlueprintTransaction {
+        const { lastSendResult } = this.#sender;
+        if (
+            typeof lastSendResult !== 'object' ||
+            lastSendResult === null ||
+            !('transactions' in lastSendResult) ||
+            !Array.isArray(lastSendResult.transactions) ||
+            lastSendResult.transactions.length === 0
+        ) {
+            throw new Error('Transaction was not applied. Nothing was sent to the sandbox');
         }
 
-        return provider.getTransactions(address, last.lt, last.hash);
+        const transaction = toBlueprintTransaction((lastSendResult.transactions as Transaction[])[0], address);
+        this.#ui.write(`Transaction ${transaction.hash} successfully applied!`);
+        return transaction;
+    }
+
+    private async getLastTransactions(address: Address): Promise<Transaction[]> {
+        return getLastTransactions(this.#tc, address);
     }
 
     private async isTransactionApplied(
         address: Address,
         targetInMessageHash: Buffer,
     ): Promise<{ isApplied: false } | { isApplied: true; transaction: Transaction }> {
-        const provider = this.#tc.provider(address);
-        const { last } = await provider.getState();
-        if (!last) {
-            return { isApplied: false };
-        }
-
-        let lastTxs: Transaction[];
+        let transaction: Transaction | undefined;
         try {
-            lastTxs = await this.getLastTransactions(address);
+            transaction = await findTransactionByExtMessageHash(this.#tc, address, targetInMessageHash);
         } catch (_) {
             return { isApplied: false };
         }
 
-        for (const transaction of lastTxs) {
-            if (transaction.inMessage?.info.type !== 'external-in') {
-                continue;
-            }
-            const inMessageHash = getNormalizedExtMessageHash(transaction.inMessage);
-            if (inMessageHash.equals(targetInMessageHash)) {
-                return { isApplied: true, transaction };
-            }
-        }
-
-        return { isApplied: false };
+        return transaction === undefined ? { isApplied: false } : { isApplied: true, transaction };
     }
 
-    async waitForLastTransaction(waitAttempts: number = 20, sleepDuration: number = 2000): Promise<void> {
+    async waitForLastTransaction(
+        waitAttempts: number = 20,
+        sleepDuration: number = 2000,
+    ): Promise<BlueprintTransaction> {
         let attempts = waitAttempts;
 
         if (attempts <= 0) {
@@ -637,11 +552,21 @@ class NetworkProviderImpl implements NetworkProvider {
             throw new Error('Sender must have an address');
         }
 
-        const inMessageHash = this.obtainInMessageHash();
+        if (this.#network === 'sandbox') {
+            return this.reportSandboxTransaction(this.#sender.address);
+        }
+
+        // The external message goes to the wallet that signed it, which is not the sender for multisig orders
+        const extMessage = this.obtainExternalMessage();
+        if (extMessage.info.type !== 'external-in') {
+            throw new Error('Send result must contain an external message');
+        }
+        const wallet = extMessage.info.dest;
+        const inMessageHash = getNormalizedExtMessageHash(extMessage);
 
         for (let i = 1; i <= attempts; i++) {
             this.#ui.setActionPrompt(`Awaiting transaction... [Attempt ${i}/${attempts}]`);
-            const result = await this.isTransactionApplied(this.#sender.address, inMessageHash);
+            const result = await this.isTransactionApplied(wallet, inMessageHash);
             if (result.isApplied) {
                 const { transaction } = result;
                 this.#ui.clearActionPrompt();
@@ -651,13 +576,13 @@ class NetworkProviderImpl implements NetworkProvider {
                         {
                             ...transaction,
                             hash: transaction.hash(),
-                            address: this.#sender.address,
+                            address: wallet,
                         },
                         this.#network,
                         this.#explorer,
                     )}`,
                 );
-                return;
+                return toBlueprintTransaction(transaction, wallet);
             }
 
             await sleep(sleepDuration);
@@ -666,6 +591,110 @@ class NetworkProviderImpl implements NetworkProvider {
         throw new Error("Transaction was not applied. Check your wallet's transactions");
     }
 
+    async waitForTrace(
+        sendResult: unknown = this.#sender.lastSendResult,
+        attempts: number = 20,
+        sleepDuration: number = 2000,
+    ): Promise<BlueprintTrace> {
+        if (attempts <= 0) {
+            throw new Error('Attempt number must be positive');
+        }
+
+        let root: { address: Address; transaction: Transaction };
+        let findTransaction: (address: Address, message: Message) => Promise<Transaction | undefined>;
+
+        if (
+            typeof sendResult === 'object' &&
+            sendResult !== null &&
+            'transactions' in sendResult &&
+            Array.isArray(sendResult.transactions)
+        ) {
+            // Sandbox returns the whole cascade of transactions right away
+            const transactions = sendResult.transactions as Transaction[];
+            const [first] = transactions;
+            if (!first?.inMessage || !Address.isAddress(first.inMessage.info.dest)) {
+                throw new Error('Transaction was not applied. Nothing was sent to the sandbox');
+            }
+            root = { address: first.inMessage.info.dest, transaction: first };
+            findTransaction = async (_address, message) =>
+                transactions.find((transaction) => isTransactionCausedBy(transaction, message));
+        } else {
+            const extMessage = this.obtainExternalMessage(sendResult);
+            if (extMessage.info.type !== 'external-in') {
+                throw new Error('Send result must contain an external message');
+            }
+            const address = extMessage.info.dest;
+            const inMessageHash = getNormalizedExtMessageHash(extMessage);
+
+            let transaction: Transaction | undefined;
+            for (let i = 1; i <= attempts && transaction === undefined; i++) {
+                this.#ui.setActionPrompt(`Awaiting transaction... [Attempt ${i}/${attempts}]`);
+                const result = await this.isTransactionApplied(address, inMessageHash);
+                if (result.isApplied) {
+                    transaction = result.transaction;
+                } else {
+                    await sleep(sleepDuration);
+                }
+            }
+            if (transaction === undefined) {
+                this.#ui.clearActionPrompt();
+                throw new Error("Transaction was not applied. Check your wallet's transactions");
+            }
+
+            root = { address, transaction };
+            findTransaction = async (address, message) => {
+                for (let i = 1; i <= attempts; i++) {
+                    this.#ui.setActionPrompt(
+                        `Following message trace to ${address.toString()}... [Attempt ${i}/${attempts}]`,
+                    );
+                    try {
+                        const transactions = await this.getLastTransactions(address);
+                        const found = transactions.find((transaction) => isTransactionCausedBy(transaction, message));
+                        if (found) {
+                            return found;
+                        }
+                    } catch (_) {
+                        // Ignore the error and retry
+                    }
+                    await sleep(sleepDuration);
+                }
+
+                return undefined;
+            };
+        }
+
+        const trace = await this.followTrace(root.address, root.transaction, findTransaction);
+        this.#ui.clearActionPrompt();
+        this.#ui.write(formatBlueprintTrace(trace));
+
+        return trace;
+    }
+
+    private async followTrace(
+        address: Address,
+        transaction: Transaction,
+        findTransaction: (address: Address, message: Message) => Promise<Transaction | undefined>,
+    ): Promise<BlueprintTrace> {
+        const children: BlueprintTrace[] = [];
+        for (const message of transaction.outMessages.values()) {
+            if (message.info.type !== 'internal') {
+                continue;
+            }
+
+            const destination = message.info.dest;
+            const child = await findTransaction(destination, message);
+            if (child === undefined) {
+                this.#ui.clearActionPrompt();
+                throw new Error(
+                    `Message from ${address.toString()} to ${destination.toString()} was not processed. Check the transactions of ${destination.toString()}`,
+                );
+            }
+            children.push(await this.followTrace(destination, child, findTransaction));
+        }
+
+        return { transaction: toBlueprintTransaction(transaction, address), children };
+    }
+
     /**
      * @deprecated
      *
@@ -680,6 +709,7 @@ class NetworkProviderImpl implements NetworkProvider {
         if (!contract.init) {
             throw new Error('Contract has no init!');
         }
+        this.trackContract(contract);
 
         await this.#sender.send({
             to: contract.address,
@@ -693,110 +723,145 @@ class NetworkProviderImpl implements NetworkProvider {
         await this.waitForDeploy(contract.address, waitAttempts);
     }
 
+    async deployIfNeeded(
+        contract: Contract,
+        value: bigint,
+        body?: Cell,
+        waitAttempts: number = 20,
+    ): Promise<DeployIfNeededResult> {
+        if (!contract.init) {
+            throw new Error('Contract has no init!');
+        }
+
+        const address = contractAddress(contract.address.workChain, contract.init);
+        if (!address.equals(contract.address)) {
+            throw new Error(`Contract address ${contract.address} does not match the address computed from its init`);
+        }
+
+        if (await this.isContractDeployed(address)) {
+            this.#ui.write(`Contract is already deployed at address ${address.toString()}, skipping deployment`);
+            return { status: 'alreadyDeployed', address };
+        }
+
+        this.trackContract(contract);
+        await this.#sender.send({
+            to: address,
+            value,
+            body,
+            init: contract.init,
+        });
+        await this.waitForDeploy(address, waitAttempts);
+
+        return { status: this.#sendsMultisigOrders ? 'ordered' : 'deployed', address };
+    }
+
     open<T extends Contract>(contract: T): OpenedContract<T> {
+        this.trackContract(contract);
         return openContract(contract, (params) => this.provider(params.address, params.init ?? null));
     }
 
     ui(): UIProvider {
         return this.#ui;
     }
+}
 
-    // Modifying verifyTransactionByHash method to return more information
-    async verifyTransactionByHash(txHash: string): Promise<{ success: boolean; error?: string; tx?: any }> {
-        try {
-            // Use TonAPI to check transaction status
-            const apiUrl = this.#network === 'mainnet' ? TONAPI_MAINNET : TONAPI_TESTNET;
-            if (this.#network === 'custom') {
-                return { success: true }; // Cannot check status for custom networks
-            }
-
-            let response;
-            try {
-                response = await axios.get(`${apiUrl}/v2/blockchain/transactions/${txHash}`);
-            } catch (e) {
-                // Add API error details if available
-                const errorDetails = e instanceof Error ? e.message : String(e);
-                return { success: false, error: `Transaction not found or API error: ${errorDetails}` };
-            }
-
-            const tx = response.data;
-            if (!tx) {
-                return { success: false, error: 'Transaction not found (empty response)' };
-            }
-
-            // Check transaction status more accurately, using snake_case from API
-            const exitCode = tx.compute_phase?.exit_code; // snake_case
-            const computeSuccess = tx.compute_phase?.success; // snake_case
-            const txSuccessOverall = tx.success === true; // Overall transaction success
-            const isFailedCompute =
-                (exitCode !== undefined && exitCode !== 0 && exitCode !== 1) || computeSuccess === false;
-            const isFailedOverall = txSuccessOverall === false;
-
-            // If transaction failed, create a detailed error message
-            if (isFailedCompute || isFailedOverall) {
-                let errorMsg = `Transaction FAILED.\n`;
-
-                // Add exit code if available
-                if (exitCode !== undefined) {
-                    errorMsg += `Exit code: ${exitCode}\n`;
-                } else {
-                    errorMsg += `Exit code: unknown\n`;
-                }
-
-                // Add compute.success if available
-                if (computeSuccess !== undefined) {
-                    errorMsg += `Compute success: ${computeSuccess}\n`;
-                }
-
-                // Add overall transaction success
-                errorMsg += `Overall success: ${txSuccessOverall}\n`;
-
-                const exitArg = tx.compute_phase?.exit_arg; // snake_case
-                if (exitArg !== undefined) errorMsg += `Exit arg: ${exitArg}\n`;
-                if (tx.status) errorMsg += `Status: ${tx.status}\n`; // Status from API
-                if (tx.aborted !== undefined) errorMsg += `Aborted: ${tx.aborted}\n`;
-                if (tx.compute_phase?.gas_used) errorMsg += `Gas used: ${tx.compute_phase.gas_used}\n`; // snake_case
-                if (tx.compute_phase?.vm_steps) errorMsg += `VM steps: ${tx.compute_phase.vm_steps}\n`; // snake_case
+function parseOptionalIntEnv(name: string): number | undefined {
+    const value = process.env[name];
+    if (value === undefined || value === '') {
+        return undefined;
+    }
 
-                // Add full JSON response at the end
-                errorMsg += `\n--- Full API Response: ---\n${JSON.stringify(tx, null, 2)}`;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed)) {
+        throw new Error(`Env variable ${name} must be an integer, got ${value}`);
+    }
+    return parsed;
+}
 
-                return {
-                    success: false,
-                    error: errorMsg,
-                    tx,
-                };
-            }
+type WalletOptions = Omit<WalletContractParams, 'version' | 'publicKey' | 'network'> & {
+    version: WalletVersion;
+};
 
-            return { success: true, tx };
-        } catch (error) {
-            console.warn('Failed to verify transaction by hash:', error);
-            const errorDetails = error instanceof Error ? error.message : String(error);
-            return { success: false, error: `Error verifying transaction: ${errorDetails}` };
+/**
+ * Returns the mnemonic of the named keystore key, of the WALLET_MNEMONIC env variable,
+ * or of a keystore key chosen interactively.
+ */
+async function readMnemonic(ui: UIProvider, keyName?: string): Promise<string[]> {
+    if (keyName !== undefined) {
+        const key = await findKey(keyName);
+        if (key === undefined) {
+            throw new Error(
+                `Key ${keyName} not found in the keystore, add it with \`blueprint wallet add ${keyName}\``,
+            );
         }
+        return await unlockKey(key, ui);
     }
-}
 
-async function createMnemonicProvider(client: BlueprintTonClient, ui: UIProvider, network: Network) {
     // Access environment variables using indexer notation to avoid TypeScript errors
     const mnemonic = process.env['WALLET_MNEMONIC'] || '';
-    const walletVersion = process.env['WALLET_VERSION'] || '';
+    if (mnemonic.length > 0) {
+        return mnemonic.split(' ');
+    }
 
-    if (mnemonic.length === 0 || walletVersion.length === 0) {
+    const keys = await listKeys();
+    if (keys.length === 0) {
         throw new Error(
-            'Mnemonic deployer was chosen, but env variables WALLET_MNEMONIC and WALLET_VERSION are not set',
+            'Mnemonic deployer was chosen, but env variable WALLET_MNEMONIC is not set and the keystore is empty. Add a key with `blueprint wallet add <name>`',
         );
     }
-    const keyPair = await mnemonicToPrivateKey(mnemonic.split(' '));
+    const key = await ui.choose('Which key do you want to use?', keys, (k) => `${k.name} (${k.location})`);
+    return await unlockKey(key, ui);
+}
+
+async function createMnemonicProvider(
+    client: BlueprintTonClient,
+    ui: UIProvider,
+    network: Network,
+    wallet: WalletOptions,
+    keyName?: string,
+) {
+    const keyPair = await mnemonicToPrivateKey(await readMnemonic(ui, keyName));
     return new MnemonicProvider({
-        version: walletVersion.toLowerCase() as WalletVersion,
+        ...wallet,
         client,
         secretKey: keyPair.secretKey,
         ui,
         network,
+        storage: new FSStorage(path.join(TEMP_DIR, network, 'highload-query-ids.json')),
     });
 }
 
+async function createExternalSignerProvider(
+    client: BlueprintTonClient,
+    ui: UIProvider,
+    network: Network,
+    wallet: WalletOptions,
+    signerArg?: string,
+    signerConfig?: string,
+) {
+    // `--signer` with an empty value falls back to the config
+    let signer = signerArg || signerConfig;
+    if (!signer) {
+        signer = await ui.input('Enter the signer command or URL:');
+    }
+
+    return new ExternalSignerProvider({
+        ...wallet,
+        signer,
+        client,
+        ui,
+        network,
+    });
+}
+
+function parseMultisigAddress(multisig: string) {
+    try {
+        return Address.parse(multisig);
+    } catch (_) {
+        throw new Error(`Invalid multisig address: ${multisig}`);
+    }
+}
+
 function intToIP(int: number): string {
     const part1 = int & 255;
     const part2 = (int >> 8) & 255;
@@ -805,22 +870,70 @@ function intToIP(int: number): string {
     return `${(part4 + 256) % 256}.${(part3 + 256) % 256}.${(part2 + 256) % 256}.${(part1 + 256) % 256}`;
 }
 
-async function buildLiteClient(configEndpoint: string) {
-    const { data } = await axios.get(configEndpoint);
-    if (!Array.isArray(data.liteservers)) {
+function isUrl(source: string) {
+    return /^https?:\/\//.test(source);
+}
+
+/**
+ * Liteserver entry of a TON global config.
+ */
+type GlobalConfigLiteServer = {
+    ip: number;
+    port: number;
+    id: { '@type'?: string; key: string };
+};
+
+async function loadLiteClientConfig(source: string): Promise<{ liteservers?: GlobalConfigLiteServer[] }> {
+    if (isUrl(source)) {
+        return (await axios.get(source)).data;
+    }
+
+    try {
+        return JSON.parse(await fs.readFile(path.resolve(source), 'utf-8'));
+    } catch (e) {
+        throw new Error(`Could not read liteclient configuration from ${source}: ${(e as Error).message}`);
+    }
+}
+
+function parseLiteServerIndices(input: string): number[] {
+    return input.split(',').map((part) => {
+        const index = Number(part.trim());
+        if (!Number.isInteger(index) || index < 0) {
+            throw new Error(`Invalid liteserver index: ${part}`);
+        }
+        return index;
+    });
+}
+
+async function buildLiteClient(configSource: string, options: ClientOptions, indices?: number[]) {
+    const data = await loadLiteClientConfig(configSource);
+    if (!Array.isArray(data?.liteservers)) {
         throw new Error(
-            `Invalid liteclient configuration on ${configEndpoint}. Use https://ton.org/testnet-global.config.json for testnet or https://ton.org/global.config.json for mainnet.`,
+            `Invalid liteclient configuration in ${configSource}. Use https://ton.org/testnet-global.config.json for testnet or https://ton.org/global.config.json for mainnet.`,
         );
     }
 
-    const engines = data.liteservers.map((server: any) => {
+    const all = data.liteservers;
+    let liteservers = all;
+    if (indices !== undefined && indices.length > 0) {
+        liteservers = indices.map((index) => {
+            if (index >= all.length) {
+                throw new Error(
+                    `Liteserver index ${index} is out of range, ${configSource} has ${all.length} liteservers`,
+                );
+            }
+            return all[index];
+        });
+    }
+
+    const engines = liteservers.map((server) => {
         if (
             typeof server?.ip !== 'number' ||
             typeof server?.port !== 'number' ||
             typeof server?.id !== 'object' ||
             typeof server?.id?.key !== 'string'
         ) {
-            throw new Error(`Invalid liteclient configuration on ${configEndpoint}`);
+            throw new Error(`Invalid liteclient configuration in ${configSource}`);
         }
         return new LiteSingleEngine({
             host: `tcp://${intToIP(server.ip)}:${server.port}`,
@@ -828,22 +941,64 @@ async function buildLiteClient(configEndpoint: string) {
         });
     });
 
-    const engine = new LiteRoundRobinEngine(engines);
+    const engine = createRetryingLiteEngine(engines, options);
     return new LiteClient({ engine });
 }
 
+async function createCustomClient(
+    configNetwork: CustomNetwork,
+    options: ClientOptions,
+    liteServerIndices?: number[],
+): Promise<FailoverClientMember> {
+    if (liteServerIndices !== undefined && configNetwork.version !== 'liteclient') {
+        throw new Error('Liteserver indices can only be used with the liteclient API version');
+    }
+
+    if (configNetwork.version === undefined || configNetwork.version === 'v2') {
+        return new TonClient({
+            endpoint: configNetwork.endpoint,
+            apiKey: configNetwork.key,
+            timeout: options.timeout,
+            httpAdapter: createRetryingHttpAdapter(options.retry),
+        });
+    } else if (configNetwork.version === 'v4') {
+        if (configNetwork.key !== undefined) {
+            throw new Error('Cannot use a custom API key with a v4 API');
+        }
+        return new TonClient4({
+            endpoint: configNetwork.endpoint,
+            timeout: options.timeout,
+            httpAdapter: createRetryingHttpAdapter(options.retry),
+        });
+    } else if (configNetwork.version === 'tonapi') {
+        return new ContractAdapter(
+            new TonApiClient({
+                baseUrl: configNetwork.endpoint,
+                apiKey: configNetwork.key,
+                fetch: createRetryingFetch(options),
+            }),
+        );
+    } else if (configNetwork.version === 'liteclient') {
+        return await buildLiteClient(configNetwork.endpoint, options, liteServerIndices ?? configNetwork.liteservers);
+    }
+
+    throw new Error('Unknown API version: ' + configNetwork.version);
+}
+
 class NetworkProviderBuilder {
     constructor(
         private args: Args,
         private ui: UIProvider,
         private config?: Config,
         private allowCustom = true,
+        private requireSender = true,
     ) {}
 
     async chooseNetwork(): Promise<Network> {
         let network = oneOrZeroOf({
             mainnet: this.args['--mainnet'],
             testnet: this.args['--testnet'],
+            sandbox: this.args['--sandbox'],
             custom: this.args['--custom'] !== undefined,
         });
 
@@ -855,7 +1010,11 @@ class NetworkProviderBuilder {
             return typeof this.config.network === 'string' ? this.config.network : 'custom';
         }
 
-        network = await this.ui.choose('Which network do you want to use?', ['mainnet', 'testnet', 'custom'], (c) => c);
+        network = await this.ui.choose(
+            'Which network do you want to use?',
+            ['mainnet', 'testnet', 'sandbox', 'custom'],
+            (c) => c,
+        );
         if (network === 'custom') {
             const defaultCustomEndpoint = 'http://localhost:8081/';
             this.args['--custom'] = (
@@ -878,11 +1037,134 @@ class NetworkProviderBuilder {
         );
     }
 
+    chooseLiteServer(network: Network): LiteServerConfig | undefined {
+        const argsConfig = this.args['--liteserver-config'];
+        const argsIndices =
+            this.args['--liteserver-index'] === undefined
+                ? undefined
+                : parseLiteServerIndices(this.args['--liteserver-index']);
+        const hasArgs = this.args['--liteserver'] || argsConfig !== undefined || argsIndices !== undefined;
+
+        if (network === 'sandbox') {
+            if (hasArgs) {
+                throw new Error('Liteserver options cannot be used with the sandbox network');
+            }
+            return undefined;
+        }
+
+        if (network === 'custom') {
+            if (this.args['--liteserver'] || argsConfig !== undefined) {
+                throw new Error(
+                    'Liteserver options cannot be used with a custom network, pass its liteclient configuration with --custom and --custom-version liteclient',
+                );
+            }
+            return argsIndices === undefined ? undefined : { indices: argsIndices };
+        }
+
+        const configLiteServer = this.config?.liteserver === true ? {} : this.config?.liteserver || undefined;
+        if (!hasArgs && configLiteServer === undefined) {
+            return undefined;
+        }
+
+        return {
+            config: argsConfig ?? configLiteServer?.config,
+            indices: argsIndices ?? configLiteServer?.indices,
+        };
+    }
+
+    /**
+     * Estimates the fees of the messages and asks the user to confirm sending them.
+     * Fails without a terminal or in CI, where nobody could answer the prompt.
+     */
+    createSendConfirmation(
+        client: BlueprintTonClient,
+        network: Network,
+        from?: Address,
+        multisigOrderCreator?: Address,
+    ): SendConfirmation {
+        return async (messages, sendMode) => {
+            if (!process.stdin.isTTY || process.env['CI']) {
+                throw new Error(
+                    'Sending must be confirmed, which is not possible without a terminal or in CI. Pass --yes to send without confirmation',
+                );
+            }
+
+            const estimates: MessageFeeEstimate[] = [];
+            this.ui.setActionPrompt('Estimating fees...');
+            try {
+                const config = await getConfigCell(client);
+                for (const message of messages) {
+                    estimates.push(await estimateMessageFees(client, config, from, message, sendMode));
+                }
+            } catch (e) {
+                this.ui.write(`Could not estimate fees: ${(e as Error).message}`);
+            } finally {
+                this.ui.clearActionPrompt();
+            }
+
+            const multisigOrder = multisigOrderCreator && { creator: multisigOrderCreator, value: NEW_ORDER_VALUE };
+            const confirmation = formatSendConfirmation(network, from, messages, estimates, sendMode, multisigOrder);
+            if (!(await this.ui.prompt(confirmation))) {
+                throw new Error('Sending was cancelled');
+            }
+        };
+    }
+
+    /**
+     * Resolves the wallet of the mnemonic and external signer deployers.
+     * Flags take precedence over the `wallet` config section, which takes precedence over env variables.
+     */
+    chooseWallet(): WalletOptions {
+        const config = this.config?.wallet;
+        const version = (
+            this.args['--wallet-version'] ??
+            config?.version ??
+            process.env['WALLET_VERSION']
+        )?.toLowerCase();
+        if (!version) {
+            throw new Error(
+                'Wallet version is not set. Pass --wallet-version, set `wallet.version` in the config or WALLET_VERSION env variable',
+            );
+        }
+
+        const workchain = this.args['--workchain'] ?? config?.workchain ?? 0;
+        if (workchain !== 0 && workchain !== -1) {
+            throw new Error(`Wallet workchain must be 0 or -1, got ${workchain}`);
+        }
+
+        const wallet: WalletOptions = {
+            version: version as WalletVersion,
+            workchain,
+            walletId: config?.walletId ?? parseOptionalIntEnv('WALLET_ID'),
+            subwalletNumber: parseOptionalIntEnv('SUBWALLET_NUMBER'),
+            timeout: config?.timeout ?? parseOptionalIntEnv('WALLET_TIMEOUT'),
+        };
+        const subwallet = this.args['--subwallet'] ?? config?.subwallet;
+        if (subwallet !== undefined) {
+            Object.assign(wallet, subwalletParams(wallet.version, workchain, subwallet));
+        }
+
+        return wallet;
+    }
+
     async chooseSendProvider(network: Network, client: BlueprintTonClient): Promise<SendProvider> {
+        if (isSandboxBlockchain(client)) {
+            if (
+                this.args['--tonconnect'] ||
+                this.args['--deeplink'] ||
+                this.args['--mnemonic'] ||
+                this.args['--signer'] !== undefined
+            ) {
+                throw new Error('Sandbox network always sends from its treasury wallet, wallet options cannot be used');
+            }
+            return new SandboxProvider(client, this.ui);
+        }
+
         let deployUsing = oneOrZeroOf({
             tonconnect: this.args['--tonconnect'],
             deeplink: this.args['--deeplink'],
-            mnemonic: this.args['--mnemonic'],
+            mnemonic: this.args['--mnemonic'] || this.args['--key'] !== undefined,
+            signer: this.args['--signer'] !== undefined,
         });
 
         if (!deployUsing) {
@@ -902,6 +1184,10 @@ class NetworkProviderBuilder {
                             name: 'Mnemonic',
                             value: 'mnemonic',
                         },
+                        {
+                            name: 'External signer (command or HTTP endpoint)',
+                            value: 'signer',
+                        },
                     ],
                     (c) => c.name,
                 )
@@ -925,7 +1211,23 @@ class NetworkProviderBuilder {
                 );
                 break;
             case 'mnemonic':
-                provider = await createMnemonicProvider(client, this.ui, network);
+                provider = await createMnemonicProvider(
+                    client,
+                    this.ui,
+                    network,
+                    this.chooseWallet(),
+                    this.args['--key'] ?? this.config?.wallet?.key ?? process.env['WALLET_KEY'],
+                );
+                break;
+            case 'signer':
+                provider = await createExternalSignerProvider(
+                    client,
+                    this.ui,
+                    network,
+                    this.chooseWallet(),
+                    this.args['--signer'],
+                    this.config?.signer,
+                );
                 break;
             default:
                 throw new Error('Unknown deploy option');
@@ -947,11 +1249,25 @@ class NetworkProviderBuilder {
             throw new Error('Cannot use custom parameters with a non-custom network');
         }
 
+        const liteServer = this.chooseLiteServer(network);
+        const clientOptions: ClientOptions = {
+            timeout: this.config?.requestTimeout,
+            retry: resolveRetryConfig(this.config?.retry),
+        };
+
         let tc;
-        if (network === 'custom') {
-            let configNetwork: CustomNetwork | undefined = undefined;
+        if (network === 'sandbox') {
+            if (!this.allowCustom) {
+                throw new Error('The usage of this network provider requires either mainnet or testnet');
+            }
+            tc = await createSandboxBlockchain();
+            if (await loadSandboxState(tc)) {
+                this.ui.write('Restored sandbox state from the previous run');
+            }
+        } else if (network === 'custom') {
+            let configNetworks: CustomNetwork[] = [];
             if (this.config?.network !== undefined && typeof this.config.network !== 'string') {
-                configNetwork = this.config.network;
+                configNetworks = Array.isArray(this.config.network) ? this.config.network : [this.config.network];
             }
             if (this.args['--custom'] !== undefined) {
                 const inputVer = this.args['--custom-version'];
@@ -964,41 +1280,39 @@ class NetworkProviderBuilder {
                 if (inputType !== undefined) {
                     type = inputType as any; // checks come later
                 }
-                configNetwork = {
-                    endpoint: this.args['--custom'],
-                    version,
-                    key: this.args['--custom-key'],
-                    type,
-                };
+                configNetworks = [
+                    {
+                        endpoint: this.args['--custom'],
+                        version,
+                        key: this.args['--custom-key'],
+                        type,
+                    },
+                ];
             }
-            if (configNetwork === undefined) {
+            if (configNetworks.length === 0) {
                 throw new Error('Custom network is (somehow) undefined');
             }
-            if (configNetwork.version === undefined || configNetwork.version === 'v2') {
-                tc = new TonClient({
-                    endpoint: configNetwork.endpoint,
-                    apiKey: configNetwork.key,
-                });
-            } else if (configNetwork.version === 'v4') {
-                if (configNetwork.key !== undefined) {
-                    throw new Error('Cannot use a custom API key with a v4 API');
-                }
-                tc = new TonClient4({
-                    endpoint: configNetwork.endpoint,
-                });
-            } else if (configNetwork.version === 'tonapi') {
-                tc = new ContractAdapter(
-                    new TonApiClient({
-                        baseUrl: configNetwork.endpoint,
-                        apiKey: configNetwork.key,
-                    }),
-                );
-            } else if (configNetwork.version === 'liteclient') {
-                tc = await buildLiteClient(configNetwork.endpoint);
-            } else {
-                throw new Error('Unknown API version: ' + configNetwork.version);
+
+            const types = new Set(configNetworks.map((configNetwork) => configNetwork.type?.toLowerCase()));
+            if (types.size > 1) {
+                throw new Error('All endpoints of a custom network must have the same type');
             }
 
+            const clients = await Promise.all(
+                configNetworks.map((configNetwork) =>
+                    createCustomClient(configNetwork, clientOptions, liteServer?.indices),
+                ),
+            );
+            tc =
+                clients.length === 1
+                    ? clients[0]
+                    : new FailoverClient(
+                          clients.map((client, i) => ({ name: configNetworks[i].endpoint, client })),
+                          // Every endpoint gets the time to retry its requests before the next one is tried
+                          getRetryDeadline(clientOptions),
+                      );
+
+            const [configNetwork] = configNetworks;
             if (configNetwork.type !== undefined) {
                 const ct = configNetwork.type.toLowerCase();
                 if (!['mainnet', 'testnet', 'custom'].includes(ct)) {
@@ -1008,60 +1322,69 @@ class NetworkProviderBuilder {
             } else if (!this.allowCustom) {
                 throw new Error('The usage of this network provider requires either mainnet or testnet');
             }
+        } else if (liteServer !== undefined) {
+            tc = await buildLiteClient(
+                liteServer.config ?? LITESERVER_GLOBAL_CONFIGS[network],
+                clientOptions,
+                liteServer.indices,
+            );
         } else {
-            const httpAdapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
-                let r: AxiosResponse;
-                let delay = INITIAL_DELAY;
-                let attempts = 0;
-                while (true) {
-                    r = await axios({
-                        ...config,
-                        adapter: undefined,
-                        validateStatus: (status: number) => (status >= 200 && status < 300) || status === 429,
-                    });
-                    if (r.status !== 429) {
-                        return r;
-                    }
-                    await sleep(delay);
-                    delay *= 2;
-                    attempts++;
-                    if (attempts >= MAX_ATTEMPTS) {
-                        throw new Error('Max attempts reached');
-                    }
-                }
-            };
-
             tc = new TonClient({
                 endpoint:
                     network === 'mainnet'
                         ? 'https://toncenter.com/api/v2/jsonRPC'
                         : 'https://testnet.toncenter.com/api/v2/jsonRPC',
-                httpAdapter,
+                timeout: clientOptions.timeout,
+                httpAdapter: createRetryingHttpAdapter(clientOptions.retry),
             });
         }
 
-        const sendProvider = await this.chooseSendProvider(network, tc);
+        if (!this.requireSender) {
+            return new NetworkProviderImpl(tc, new ReadOnlySender(), network, explorer, this.ui);
+        }
+
+        let sendProvider = await this.chooseSendProvider(network, tc);
+        let multisig: MultisigProvider | undefined;
+        if (this.args['--multisig'] !== undefined) {
+            sendProvider = multisig = new MultisigProvider({
+                address: parseMultisigAddress(this.args['--multisig']),
+                provider: sendProvider,
+                client: tc,
+                ui: this.ui,
+                network,
+            });
+        }
 
         try {
             await sendProvider.connect();
-        } catch (_) {
-            console.error('Unable to connect to wallet.');
+        } catch (e) {
+            console.error(`Unable to connect to wallet: ${(e as Error)?.message ?? e}`);
             process.exit(1);
         } finally {
             this.ui.setActionPrompt('');
         }
 
-        const sender = new SendProviderSender(sendProvider);
+        // Sandbox is a dry run, nothing to confirm there
+        const confirm =
+            network === 'sandbox' || this.args['--yes']
+                ? undefined
+                : this.createSendConfirmation(tc, network, sendProvider.address(), multisig?.orderCreator());
+        const sender = new SendProviderSender(sendProvider, confirm);
 
-        return new NetworkProviderImpl(tc, sender, network, explorer, this.ui);
+        return new NetworkProviderImpl(tc, sender, network, explorer, this.ui, multisig !== undefined);
     }
 }
 
+/**
+ * Creates a network provider from the command line flags and the config.
+ * When `requireSender` is false, no wallet is connected and the returned provider can only read from the network.
+ */
 export async function createNetworkProvider(
     ui: UIProvider,
     args: Args,
     config?: Config,
     allowCustom = true,
+    requireSender = true,
 ): Promise<NetworkProvider> {
-    return await new NetworkProviderBuilder(args, ui, config, allowCustom).build();
+    return await new NetworkProviderBuilder(args, ui, config, allowCustom, requireSender).build();
 }
@@ -0,0 +1,171 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+import { Address } from '@ton/core';
+
+import { BUILD_DIR, DEPLOYMENTS_DIR } from '../../paths';
+import { SANDBOX_DEPLOYMENTS_DIR } from '../sandbox/state';
+import { Network } from '../Network';
+
+const DEPLOYMENTS_FILE_VERSION = 1;
+
+export type Deployment = {
+    /**
+     * Contract name, taken from the matching `build/<name>.compiled.json` artifact or the wrapper class name.
+     */
+    name: string;
+    address: Address;
+    /**
+     * Hex-encoded hash of the contract code.
+     */
+    codeHash: string;
+    /**
+     * Hex-encoded hash of the initial contract data.
+     */
+    dataHash: string;
+    /**
+     * Hex-encoded hash of the deployment transaction, if it could be determined.
+     */
+    txHash?: string;
+    network: Network;
+    deployedAt: Date;
+};
+
+type SerializedDeployment = {
+    name: string;
+    address: string;
+    codeHash: string;
+    dataHash: string;
+    txHash?: string;
+    network: Network;
+    deployedAt: string;
+};
+
+type DeploymentsFile = {
+    version: number;
+    deployments: SerializedDeployment[];
+};
+
+function serializeDeployment(deployment: Deployment): SerializedDeployment {
+    return {
+        name: deployment.name,
+        address: deployment.address.toString({ testOnly: deployment.network !== 'mainnet' }),
+        codeHash: deployment.codeHash,
+        dataHash: deployment.dataHash,
+        txHash: deployment.txHash,
+        network: deployment.network,
+        deployedAt: deployment.deployedAt.toISOString(),
+    };
+}
+
+function deserializeDeployment(deployment: SerializedDeployment): Deployment {
+    return {
+        ...deployment,
+        address: Address.parse(deployment.address),
+        deployedAt: new Date(deployment.deployedAt),
+    };
+}
+
+/**
+ * Finds the name of the build artifact (`build/<name>.compiled.json`) whose code hash matches the given one.
+ */
+export async function findBuildArtifactName(codeHash: Buffer): Promise<string | undefined> {
+    let files: string[];
+    try {
+        files = await fs.readdir(BUILD_DIR);
+    } catch (_) {
+        return undefined;
+    }
+
+    const hash = codeHash.toString('hex');
+    for (const file of files.filter((f) => f.endsWith('.compiled.json'))) {
+        try {
+            const artifact = JSON.parse(await fs.readFile(path.join(BUILD_DIR, file), 'utf-8'));
+            if (artifact.hash === hash) {
+                return file.slice(0, -'.compiled.json'.length);
+            }
+        } catch (_) {
+            // Ignore broken artifacts, they are rewritten on the next build
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Keeps track of the contracts deployed to a network in `deployments/<network>.json`.
+ * The file is meant to be committed, so that the whole team shares the same addresses.
+ * Sandbox deployments are kept in `temp/sandbox` instead and are reset together with the sandbox state.
+ */
+export class DeploymentRegistry {
+    #network: Network;
+    #path: string;
+
+    constructor(network: Network, dir: string = network === 'sandbox' ? SANDBOX_DEPLOYMENTS_DIR : DEPLOYMENTS_DIR) {
+        this.#network = network;
+        this.#path = path.join(dir, `${network}.json`);
+    }
+
+    /**
+     * Returns the path of the registry file.
+     */
+    path(): string {
+        return this.#path;
+    }
+
+    async #readFile(): Promise<DeploymentsFile> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.#path, 'utf-8');
+        } catch (_) {
+            return { version: DEPLOYMENTS_FILE_VERSION, deployments: [] };
+        }
+
+        const file = JSON.parse(content) as DeploymentsFile;
+        if (file.version !== DEPLOYMENTS_FILE_VERSION) {
+            throw new Error(
+                `Unsupported deployments file version ${file.version} in ${this.#path}, expected ${DEPLOYMENTS_FILE_VERSION}`,
+            );
+        }
+
+        return file;
+    }
+
+    async #writeFile(file: DeploymentsFile): Promise<void> {
+        await fs.mkdir(path.dirname(this.#path), { recursive: true });
+        await fs.writeFile(this.#path, JSON.stringify(file, null, 4) + '\n');
+    }
+
+    /**
+     * Returns all recorded deployments in the order they were made.
+     */
+    async list(): Promise<Deployment[]> {
+        return (await this.#readFile()).deployments.map(deserializeDeployment);
+    }
+
+    /**
+     * Returns the latest deployment of the contract with the given name.
+     */
+    async get(name: string): Promise<Deployment | undefined> {
+        const deployments = await this.getAll(name);
+        return deployments[deployments.length - 1];
+    }
+
+    /**
+     * Returns all deployments of the contract with the given name, oldest first.
+     */
+    async getAll(name: string): Promise<Deployment[]> {
+        return (await this.list()).filter((deployment) => deployment.name === name);
+    }
+
+    /**
+     * Records a deployment. A previous record for the same address is replaced.
+     */
+    async record(deployment: Omit<Deployment, 'network'>): Promise<void> {
+        const file = await this.#readFile();
+        const serialized = serializeDeployment({ ...deployment, network: this.#network });
+        file.deployments = file.deployments.filter((d) => !Address.parse(d.address).equals(deployment.address));
+        file.deployments.push(serialized);
+        await this.#writeFile(file);
+    }
+}
@@ -0,0 +1,40 @@
+import { Address, Cell, SendMode, toNano } from '@ton/core';
+import { defaultConfig } from '@ton/sandbox';
+
+import { BlueprintTonClient } from './NetworkProvider';
+import { estimateMessageFees, formatSendConfirmation } from './fees';
+
+jest.mock('./sandbox/sandbox', () => ({
+    loadSandbox: () => {
+        throw new Error('Sandbox network was chosen, but @ton/sandbox is not installed');
+    },
+}));
+
+describe('fees', () => {
+    const from = new Address(0, Buffer.alloc(32, 1));
+    const message = { to: new Address(0, Buffer.alloc(32, 2)), value: toNano('0.05') };
+
+    it('asks to install @ton/sandbox when it is missing', async () => {
+        const estimate = await estimateMessageFees(
+            {} as BlueprintTonClient,
+            Cell.fromBase64(defaultConfig),
+            from,
+            message,
+        );
+
+        expect(estimate.forward).toBeGreaterThan(0n);
+        expect(estimate.emulationError).toBe('install @ton/sandbox to emulate fees');
+    });
+
+    it('shows the forward fee when nothing was emulated', () => {
+        const text = formatSendConfirmation(
+            'testnet',
+            from,
+            [message],
+            [{ forward: toNano('0.001'), transactions: 0 }],
+            SendMode.PAY_GAS_SEPARATELY,
+        );
+
+        expect(text).toContain('Forward fee: 0.001 TON, emulation failed: no transaction was emulated');
+    });
+});
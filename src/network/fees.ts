@@ -0,0 +1,309 @@
+import {
+    Address,
+    beginCell,
+    Cell,
+    Dictionary,
+    fromNano,
+    SenderArguments,
+    SendMode,
+    ShardAccount,
+    storeMessageRelaxed,
+} from '@ton/core';
+import { computeMessageForwardFees, configParseMsgPrices } from '@ton/ton';
+import type { Blockchain, BlockchainStorage, SmartContract } from '@ton/sandbox';
+
+import { BlueprintTonClient } from './NetworkProvider';
+import { Network } from './Network';
+import { loadSandbox } from './sandbox/sandbox';
+import { getLastTransactions } from './transactions';
+import { BlueprintTransaction, toBlueprintTransaction } from './BlueprintTransaction';
+import { createInternalMessage } from './send/wallets';
+
+export const CONFIG_ADDRESS = Address.parse('-1:5555555555555555555555555555555555555555555555555555555555555555');
+
+// Stops the emulation of long cascades, every new account of the cascade is fetched from the network
+const MAX_EMULATED_TRANSACTIONS = 20;
+
+export type MessageFeeEstimate = {
+    /**
+     * Forward fee paid by the sender for the message.
+     */
+    forward: bigint;
+    /**
+     * Transaction of the destination emulated against its current state, `undefined` if the emulation failed.
+     * Its fees contain the compute and storage fees.
+     */
+    transaction?: BlueprintTransaction;
+    /**
+     * Forward fee plus the fees of all emulated transactions of the cascade.
+     */
+    total?: bigint;
+    /**
+     * Number of emulated transactions of the cascade.
+     */
+    transactions: number;
+    emulationError?: string;
+};
+
+/**
+ * Reads the raw config cell from the config contract.
+ */
+export async function getConfigCell(client: BlueprintTonClient, address: Address = CONFIG_ADDRESS): Promise<Cell> {
+    const state = await client.provider(address).getState();
+    if (state.state.type !== 'active' || !state.state.data) {
+        throw new Error('Configuration contract not active');
+    }
+    return Cell.fromBoc(state.state.data)[0].beginParse().loadRef();
+}
+
+function loadEmulator(): typeof import('@ton/sandbox') {
+    try {
+        return loadSandbox();
+    } catch (_) {
+        throw new Error('install @ton/sandbox to emulate fees');
+    }
+}
+
+function collectStorageStats(cells: Cell[]): { cells: bigint; bits: bigint } {
+    const visited = new Set<string>();
+    let bits = 0n;
+    const visit = (cell: Cell) => {
+        const hash = cell.hash().toString('hex');
+        if (visited.has(hash)) {
+            return;
+        }
+        visited.add(hash);
+        bits += BigInt(cell.bits.length);
+        cell.refs.forEach(visit);
+    };
+    cells.forEach(visit);
+
+    return { cells: BigInt(visited.size), bits };
+}
+
+/**
+ * Loads the accounts of the emulated cascade from the network on first access.
+ */
+class NetworkBlockchainStorage implements BlockchainStorage {
+    #client: BlueprintTonClient;
+    #contracts = new Map<string, SmartContract>();
+
+    constructor(client: BlueprintTonClient) {
+        this.#client = client;
+    }
+
+    async #loadShardAccount(address: Address): Promise<ShardAccount> {
+        const state = await this.#client.provider(address).getState();
+        if (state.last === null && state.balance === 0n) {
+            return loadEmulator().createEmptyShardAccount(address);
+        }
+
+        let code: Cell | undefined;
+        let data: Cell | undefined;
+        if (state.state.type === 'active') {
+            code = state.state.code ? Cell.fromBoc(state.state.code)[0] : undefined;
+            data = state.state.data ? Cell.fromBoc(state.state.data)[0] : undefined;
+        }
+
+        // Storage fees are due since the last transaction of the account
+        let lastPaid = Math.floor(Date.now() / 1000);
+        if (state.last !== null) {
+            try {
+                lastPaid = (await getLastTransactions(this.#client, address, 1))[0]?.now ?? lastPaid;
+            } catch (_) {
+                // Without the last transaction the storage fee is not estimated
+            }
+        }
+
+        return {
+            account: {
+                addr: address,
+                storageStats: {
+                    used: collectStorageStats([code, data].filter((cell) => cell !== undefined)),
+                    lastPaid,
+                    duePayment: null,
+                    storageExtra: null,
+                },
+                storage: {
+                    lastTransLt: state.last === null ? 0n : state.last.lt + 1n,
+                    balance: { coins: state.balance },
+                    state:
+                        state.state.type === 'active'
+                            ? { type: 'active', state: { code, data } }
+                            : state.state.type === 'frozen'
+                              ? { type: 'frozen', stateHash: BigInt('0x' + state.state.stateHash.toString('hex')) }
+                              : { type: 'uninit' },
+                },
+            },
+            lastTransactionLt: state.last?.lt ?? 0n,
+            lastTransactionHash: BigInt('0x' + (state.last?.hash.toString('hex') ?? '0')),
+        };
+    }
+
+    async getContract(blockchain: Blockchain, address: Address): Promise<SmartContract> {
+        let contract = this.#contracts.get(address.toRawString());
+        if (contract === undefined) {
+            contract = new (loadEmulator().SmartContract)(await this.#loadShardAccount(address), blockchain);
+            this.#contracts.set(address.toRawString(), contract);
+        }
+        return contract;
+    }
+
+    knownContracts(): SmartContract[] {
+        return [...this.#contracts.values()];
+    }
+
+    clearKnownContracts() {
+        this.#contracts.clear();
+    }
+}
+
+async function emulate(
+    client: BlueprintTonClient,
+    config: Cell,
+    from: Address,
+    message: SenderArguments,
+    sendMode: SendMode,
+): Promise<Pick<MessageFeeEstimate, 'transaction' | 'total' | 'transactions'>> {
+    const sandbox = loadEmulator();
+    const blockchain = await sandbox.Blockchain.create({ config, storage: new NetworkBlockchainStorage(client) });
+
+    let value = message.value;
+    if ((sendMode & SendMode.CARRY_ALL_REMAINING_BALANCE) !== 0) {
+        value = (await client.provider(from).getState()).balance;
+    }
+
+    const iterator = await blockchain.sendMessageIter(
+        sandbox.internal({
+            from,
+            to: message.to,
+            value,
+            bounce: message.bounce ?? true,
+            body: message.body ?? undefined,
+            stateInit: message.init ?? undefined,
+        }),
+    );
+
+    let transaction: BlueprintTransaction | undefined;
+    let total = 0n;
+    let transactions = 0;
+    for await (const tx of iterator) {
+        transaction ??= toBlueprintTransaction(tx, message.to);
+        total += tx.totalFees.coins;
+        if (++transactions >= MAX_EMULATED_TRANSACTIONS) {
+            break;
+        }
+    }
+
+    return { transaction, total, transactions };
+}
+
+/**
+ * Estimates the fees of a message sent from the `from` account: the forward fee is computed from the config,
+ * the compute and storage fees are taken from the emulation of the message against the current state of the accounts.
+ */
+export async function estimateMessageFees(
+    client: BlueprintTonClient,
+    config: Cell,
+    from: Address | undefined,
+    message: SenderArguments,
+    sendMode: SendMode = SendMode.PAY_GAS_SEPARATELY,
+): Promise<MessageFeeEstimate> {
+    const params = Dictionary.loadDirect(Dictionary.Keys.Int(32), Dictionary.Values.Cell(), config);
+    const masterchain = from?.workChain === -1 || message.to.workChain === -1;
+    const msgPrices = configParseMsgPrices(params.get(masterchain ? 24 : 25)?.beginParse());
+    const { fees, remaining } = computeMessageForwardFees(
+        msgPrices,
+        beginCell()
+            .store(
+                storeMessageRelaxed(
+                    createInternalMessage({
+                        address: message.to,
+                        amount: message.value,
+                        payload: message.body ?? undefined,
+                        stateInit: message.init ?? undefined,
+                        bounce: message.bounce ?? undefined,
+                    }),
+                ),
+            )
+            .endCell(),
+    );
+    const forward = fees + remaining;
+
+    if (from === undefined) {
+        return { forward, transactions: 0, emulationError: 'the sender address is unknown' };
+    }
+
+    try {
+        const emulated = await emulate(client, config, from, message, sendMode);
+        return { forward, ...emulated, total: forward + (emulated.total ?? 0n) };
+    } catch (e) {
+        return { forward, transactions: 0, emulationError: (e as Error).message };
+    }
+}
+
+function describeBody(body: Cell | null | undefined): string {
+    if (!body || body.bits.length === 0) {
+        return 'empty body';
+    }
+
+    const slice = body.beginParse();
+    if (slice.remainingBits < 32) {
+        return 'body without opcode';
+    }
+    const op = slice.loadUint(32);
+    if (op === 0) {
+        try {
+            return `comment "${slice.loadStringTail()}"`;
+        } catch (_) {
+            return 'op 0x00000000';
+        }
+    }
+
+    return `op 0x${op.toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Formats the messages and their estimated fees for the confirmation prompt.
+ * For multisig orders, the messages are the ones wrapped into the order and the value paid by its creator is shown too.
+ */
+export function formatSendConfirmation(
+    network: Network,
+    from: Address | undefined,
+    messages: SenderArguments[],
+    estimates: MessageFeeEstimate[],
+    sendMode: SendMode,
+    multisigOrder?: { creator: Address; value: bigint },
+): string {
+    const testOnly = network !== 'mainnet';
+    const toncoins = (value: bigint) => `${fromNano(value)} TON`;
+    const carriesBalance = (sendMode & SendMode.CARRY_ALL_REMAINING_BALANCE) !== 0;
+
+    let text = `About to send ${messages.length === 1 ? '1 message' : `${messages.length} messages`} on ${network}${from ? ` from ${from.toString({ testOnly })}` : ''}:\n`;
+    if (multisigOrder !== undefined) {
+        text += `As a new multisig order created by ${multisigOrder.creator.toString({ testOnly })}, which sends ${toncoins(multisigOrder.value)} to the multisig for it\n`;
+    }
+    messages.forEach((message, i) => {
+        // Estimates are missing if the config could not be read
+        const estimate: MessageFeeEstimate | undefined = estimates[i];
+        const value = carriesBalance ? 'the whole remaining balance' : toncoins(message.value);
+        text += `  ${i + 1}. To ${message.to.toString({ testOnly, bounceable: message.bounce ?? true })}, value ${value}, ${describeBody(message.body)}${message.init ? ', with state init' : ''}\n`;
+
+        if (estimate === undefined) {
+            return;
+        }
+        const { transaction, total } = estimate;
+        if (transaction === undefined || total === undefined) {
+            text += `     Forward fee: ${toncoins(estimate.forward)}, emulation failed: ${estimate.emulationError ?? 'no transaction was emulated'}\n`;
+            return;
+        }
+        text += `     Fees: forward ${toncoins(estimate.forward)}, compute ${toncoins(transaction.fees.gas)}, storage ${toncoins(transaction.fees.storage)}; ${toncoins(total)} in total over ${estimate.transactions} emulated ${estimate.transactions === 1 ? 'transaction' : 'transactions'}\n`;
+        // A skipped compute phase is expected for plain transfers to accounts that are not deployed
+        const executed = transaction.exitCode !== undefined || transaction.actionResultCode !== undefined;
+        if (!transaction.success && executed) {
+            text += `     Warning: the destination transaction fails in emulation (exit code ${transaction.exitCode ?? '-'}, action result code ${transaction.actionResultCode ?? '-'})\n`;
+        }
+    });
+
+    return text + 'Send?';
+}
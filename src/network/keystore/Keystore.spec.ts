@@ -0,0 +1,103 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+
+import { mnemonicToPrivateKey } from '@ton/crypto';
+
+import { Keystore } from './Keystore';
+
+// prettier-ignore
+const mnemonic = [
+    'witch', 'collapse', 'practice', 'feed', 'shame', 'open', 'despair', 'creek',
+    'road', 'again', 'ice', 'least', 'coffee', 'wood', 'kiwi', 'awake',
+    'stone', 'vacant', 'spread', 'cheap', 'carpet', 'broken', 'fiction', 'ocean',
+];
+
+describe('Keystore', () => {
+    let dir: string;
+    let keystore: Keystore;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blueprint-keystore-'));
+        keystore = new Keystore('project', dir);
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('decrypts the mnemonic it encrypted', async () => {
+        const key = await keystore.add('deployer', mnemonic, 'correct horse');
+
+        expect(key.name).toBe('deployer');
+        expect(key.location).toBe('project');
+        expect(key.publicKey.equals((await mnemonicToPrivateKey(mnemonic)).publicKey)).toBe(true);
+        expect(await keystore.decrypt('deployer', 'correct horse')).toEqual(mnemonic);
+    });
+
+    it('does not store the mnemonic in plain text', async () => {
+        await keystore.add('deployer', mnemonic, 'correct horse');
+
+        const content = await fs.readFile(keystore.path('deployer'), 'utf-8');
+        expect(content).not.toContain(mnemonic[0]);
+        expect((await fs.stat(keystore.path('deployer'))).mode & 0o777).toBe(0o600);
+    });
+
+    it('rejects a wrong passphrase', async () => {
+        await keystore.add('deployer', mnemonic, 'correct horse');
+
+        await expect(keystore.decrypt('deployer', 'battery staple')).rejects.toThrow(
+            'Wrong passphrase for key deployer',
+        );
+    });
+
+    it('rejects a tampered ciphertext', async () => {
+        await keystore.add('deployer', mnemonic, 'correct horse');
+        const file = JSON.parse(await fs.readFile(keystore.path('deployer'), 'utf-8'));
+        const ciphertext = Buffer.from(file.cipher.ciphertext, 'hex');
+        ciphertext[0] ^= 1;
+        file.cipher.ciphertext = ciphertext.toString('hex');
+        await fs.writeFile(keystore.path('deployer'), JSON.stringify(file));
+
+        await expect(keystore.decrypt('deployer', 'correct horse')).rejects.toThrow('Wrong passphrase');
+    });
+
+    it('adds, lists and removes keys', async () => {
+        expect(await keystore.list()).toEqual([]);
+
+        await keystore.add('b', mnemonic, 'pass');
+        await keystore.add('a', mnemonic, 'pass');
+        expect((await keystore.list()).map((key) => key.name)).toEqual(['a', 'b']);
+
+        expect(await keystore.remove('a')).toBe(true);
+        expect(await keystore.remove('a')).toBe(false);
+        expect((await keystore.list()).map((key) => key.name)).toEqual(['b']);
+        expect(await keystore.get('a')).toBeUndefined();
+    });
+
+    it('does not overwrite an existing key', async () => {
+        await keystore.add('deployer', mnemonic, 'first');
+
+        await expect(keystore.add('deployer', mnemonic, 'second')).rejects.toThrow('already exists');
+        expect(await keystore.decrypt('deployer', 'first')).toEqual(mnemonic);
+    });
+
+    it('rejects invalid key names', async () => {
+        await expect(keystore.add('../deployer', mnemonic, 'pass')).rejects.toThrow('Invalid key name');
+    });
+
+    it('does not read keys outside the keystore', async () => {
+        const outside = new Keystore('project', path.join(dir, 'outside'));
+        await outside.add('deployer', mnemonic, 'pass');
+        const name = path.join('..', 'outside', 'deployer');
+
+        await expect(keystore.get(name)).rejects.toThrow('Invalid key name');
+        await expect(keystore.decrypt(name, 'pass')).rejects.toThrow('Invalid key name');
+        await expect(keystore.remove(name)).rejects.toThrow('Invalid key name');
+        expect(await outside.get('deployer')).toBeDefined();
+    });
+
+    it('reports missing keys', async () => {
+        await expect(keystore.decrypt('missing', 'pass')).rejects.toThrow('Key missing not found');
+    });
+});
@@ -0,0 +1,240 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, ScryptOptions } from 'crypto';
+
+import { mnemonicToPrivateKey } from '@ton/crypto';
+
+import { TEMP_DIR } from '../../paths';
+import { UIProvider } from '../../ui/UIProvider';
+
+const KEY_FILE_VERSION = 1;
+const SCRYPT_PARAMS = { N: 1 << 16, r: 8, p: 1 };
+// scrypt needs 128 * N * r bytes, more than the default limit of node
+const SCRYPT_MAX_MEMORY = 256 * 1024 * 1024;
+const PASSPHRASE_ATTEMPTS = 3;
+
+export const PROJECT_KEYSTORE_DIR = path.join(TEMP_DIR, 'keystore');
+export const GLOBAL_KEYSTORE_DIR = path.join(os.homedir(), '.blueprint', 'keystore');
+
+/**
+ * `project` keys are stored in `temp/keystore` of the project, `global` keys in `~/.blueprint/keystore`
+ * and are available to all projects of the user.
+ */
+export type KeystoreLocation = 'project' | 'global';
+
+export type KeystoreKey = {
+    name: string;
+    location: KeystoreLocation;
+    /**
+     * Public key of the mnemonic, stored unencrypted so that keys can be listed without the passphrase.
+     */
+    publicKey: Buffer;
+    createdAt: Date;
+};
+
+type KeyFile = {
+    version: number;
+    name: string;
+    publicKey: string;
+    createdAt: string;
+    kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+    cipher: { name: 'aes-256-gcm'; iv: string; tag: string; ciphertext: string };
+};
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptOptions): Promise<Buffer> {
+    return new Promise((resolve, reject) =>
+        scrypt(passphrase, salt, 32, { ...params, maxmem: SCRYPT_MAX_MEMORY }, (err, key) =>
+            err ? reject(err) : resolve(key),
+        ),
+    );
+}
+
+function validateKeyName(name: string) {
+    if (!/^[\w.-]+$/.test(name)) {
+        throw new Error(`Invalid key name ${name}, only letters, digits, '_', '.' and '-' are allowed`);
+    }
+}
+
+/**
+ * Stores wallet mnemonics encrypted with a passphrase (scrypt and AES-256-GCM), one file per key.
+ */
+export class Keystore {
+    #location: KeystoreLocation;
+    #dir: string;
+
+    constructor(location: KeystoreLocation, dir?: string) {
+        this.#location = location;
+        this.#dir = dir ?? (location === 'project' ? PROJECT_KEYSTORE_DIR : GLOBAL_KEYSTORE_DIR);
+    }
+
+    location(): KeystoreLocation {
+        return this.#location;
+    }
+
+    /**
+     * Returns the path of the keystore directory, or of the file of the key with the given name.
+     * Throws if the name is not valid, so that keys are never read or written outside the keystore.
+     */
+    path(name?: string): string {
+        if (name === undefined) {
+            return this.#dir;
+        }
+        validateKeyName(name);
+        return path.join(this.#dir, `${name}.json`);
+    }
+
+    async #readKeyFile(name: string): Promise<KeyFile | undefined> {
+        const filename = this.path(name);
+        let content: string;
+        try {
+            content = await fs.readFile(filename, 'utf-8');
+        } catch (_) {
+            return undefined;
+        }
+
+        const file = JSON.parse(content) as KeyFile;
+        if (file.version !== KEY_FILE_VERSION) {
+            throw new Error(
+                `Unsupported key file version ${file.version} in ${filename}, expected ${KEY_FILE_VERSION}`,
+            );
+        }
+
+        return file;
+    }
+
+    #toKey(file: KeyFile): KeystoreKey {
+        return {
+            name: file.name,
+            location: this.#location,
+            publicKey: Buffer.from(file.publicKey, 'hex'),
+            createdAt: new Date(file.createdAt),
+        };
+    }
+
+    /**
+     * Returns all keys of the keystore, sorted by name.
+     */
+    async list(): Promise<KeystoreKey[]> {
+        let files: string[];
+        try {
+            files = await fs.readdir(this.#dir);
+        } catch (_) {
+            return [];
+        }
+
+        const keys: KeystoreKey[] = [];
+        for (const file of files.filter((f) => f.endsWith('.json')).sort()) {
+            const key = await this.get(file.slice(0, -'.json'.length));
+            if (key !== undefined) {
+                keys.push(key);
+            }
+        }
+
+        return keys;
+    }
+
+    async get(name: string): Promise<KeystoreKey | undefined> {
+        const file = await this.#readKeyFile(name);
+        return file === undefined ? undefined : this.#toKey(file);
+    }
+
+    /**
+     * Encrypts the mnemonic with the passphrase and saves it under the given name.
+     */
+    async add(name: string, mnemonic: string[], passphrase: string): Promise<KeystoreKey> {
+        if ((await this.get(name)) !== undefined) {
+            throw new Error(`Key ${name} already exists in ${this.path(name)}`);
+        }
+
+        const salt = randomBytes(32);
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', await deriveKey(passphrase, salt, SCRYPT_PARAMS), iv);
+        const ciphertext = Buffer.concat([cipher.update(mnemonic.join(' '), 'utf-8'), cipher.final()]);
+
+        const file: KeyFile = {
+            version: KEY_FILE_VERSION,
+            name,
+            publicKey: (await mnemonicToPrivateKey(mnemonic)).publicKey.toString('hex'),
+            createdAt: new Date().toISOString(),
+            kdf: { name: 'scrypt', salt: salt.toString('hex'), ...SCRYPT_PARAMS },
+            cipher: {
+                name: 'aes-256-gcm',
+                iv: iv.toString('hex'),
+                tag: cipher.getAuthTag().toString('hex'),
+                ciphertext: ciphertext.toString('hex'),
+            },
+        };
+
+        await fs.mkdir(this.#dir, { recursive: true, mode: 0o700 });
+        await fs.writeFile(this.path(name), JSON.stringify(file, null, 4) + '\n', { mode: 0o600, flag: 'wx' });
+
+        return this.#toKey(file);
+    }
+
+    /**
+     * Decrypts the mnemonic of the key with the given name. Throws if the passphrase is wrong.
+     */
+    async decrypt(name: string, passphrase: string): Promise<string[]> {
+        const file = await this.#readKeyFile(name);
+        if (file === undefined) {
+            throw new Error(`Key ${name} not found in ${this.#dir}`);
+        }
+
+        const { kdf, cipher } = file;
+        const key = await deriveKey(passphrase, Buffer.from(kdf.salt, 'hex'), kdf);
+        const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(cipher.iv, 'hex'));
+        decipher.setAuthTag(Buffer.from(cipher.tag, 'hex'));
+        try {
+            return Buffer.concat([decipher.update(Buffer.from(cipher.ciphertext, 'hex')), decipher.final()])
+                .toString('utf-8')
+                .split(' ');
+        } catch (_) {
+            throw new Error(`Wrong passphrase for key ${name}`);
+        }
+    }
+
+    /**
+     * Removes the key with the given name. Returns false if there is no such key.
+     */
+    async remove(name: string): Promise<boolean> {
+        if ((await this.get(name)) === undefined) {
+            return false;
+        }
+
+        await fs.rm(this.path(name));
+        return true;
+    }
+}
+
+/**
+ * Returns the keys of the project keystore followed by the keys of the global keystore.
+ */
+export async function listKeys(): Promise<KeystoreKey[]> {
+    return [...(await new Keystore('project').list()), ...(await new Keystore('global').list())];
+}
+
+/**
+ * Finds the key with the given name, in the project keystore first.
+ */
+export async function findKey(name: string): Promise<KeystoreKey | undefined> {
+    return (await new Keystore('project').get(name)) ?? (await new Keystore('global').get(name));
+}
+
+/**
+ * Asks for the passphrase of the key and returns its decrypted mnemonic.
+ */
+export async function unlockKey(key: KeystoreKey, ui: UIProvider): Promise<string[]> {
+    const keystore = new Keystore(key.location);
+    for (let attempt = 1; ; attempt++) {
+        const passphrase = await ui.input(`Enter the passphrase of key ${key.name}:`);
+        try {
+            return await keystore.decrypt(key.name, passphrase);
+        } catch (e) {
+            if (attempt >= PASSPHRASE_ATTEMPTS) {
+                throw e;
+            }
+            ui.write(`${(e as Error).message}, try again\n`);
+        }
+    }
+}
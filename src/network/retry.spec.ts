@@ -0,0 +1,109 @@
+import { createRetryingFetch, DEFAULT_RETRY_CONFIG, getRetryDeadline, resolveRetryConfig, withRetry } from './retry';
+import { sleep } from '../utils/timer.utils';
+
+jest.mock('../utils/timer.utils', () => ({
+    sleep: jest.fn(() => Promise.resolve()),
+}));
+
+const sleepMock = sleep as jest.MockedFunction<typeof sleep>;
+
+describe('withRetry', () => {
+    const retry = resolveRetryConfig({ attempts: 3, initialDelay: 100, backoff: 2 });
+
+    beforeEach(() => {
+        sleepMock.mockClear();
+    });
+
+    it('returns the result of the first successful attempt', async () => {
+        const fn = jest.fn().mockRejectedValueOnce(new Error('first')).mockResolvedValueOnce('ok');
+
+        await expect(withRetry(retry, fn)).resolves.toBe('ok');
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops after the configured number of attempts', async () => {
+        const fn = jest.fn().mockRejectedValue(new Error('down'));
+
+        await expect(withRetry(retry, fn)).rejects.toThrow('down');
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('waits with exponential backoff between attempts', async () => {
+        const fn = jest.fn().mockRejectedValue(new Error('down'));
+
+        await expect(withRetry(retry, fn)).rejects.toThrow();
+        expect(sleepMock.mock.calls).toEqual([[100], [200]]);
+    });
+
+    it('rethrows non-retryable errors right away', async () => {
+        const error = new Error('bad request');
+        const fn = jest.fn().mockRejectedValue(error);
+
+        await expect(withRetry(retry, fn, (e) => e !== error)).rejects.toBe(error);
+        expect(fn).toHaveBeenCalledTimes(1);
+        expect(sleepMock).not.toHaveBeenCalled();
+    });
+});
+
+describe('createRetryingFetch', () => {
+    const retry = resolveRetryConfig({ attempts: 3 });
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('retries the configured status codes', async () => {
+        const fetchMock = jest
+            .fn()
+            .mockResolvedValueOnce(new Response(null, { status: 429 }))
+            .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+        global.fetch = fetchMock;
+
+        const response = await createRetryingFetch({ retry })('https://example.com');
+        expect(response.status).toBe(200);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns other responses without retrying', async () => {
+        const fetchMock = jest.fn().mockResolvedValue(new Response(null, { status: 500 }));
+        global.fetch = fetchMock;
+
+        const response = await createRetryingFetch({ retry })('https://example.com');
+        expect(response.status).toBe(500);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns the last response when the attempts run out', async () => {
+        const fetchMock = jest.fn().mockImplementation(async () => new Response(null, { status: 429 }));
+        global.fetch = fetchMock;
+
+        const response = await createRetryingFetch({ retry })('https://example.com');
+        expect(response.status).toBe(429);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+});
+
+describe('resolveRetryConfig', () => {
+    it('fills in the defaults', () => {
+        expect(resolveRetryConfig({ attempts: 2 })).toEqual({
+            attempts: 2,
+            initialDelay: 400,
+            backoff: 2,
+            statusCodes: [429],
+        });
+    });
+
+    it('rejects invalid values', () => {
+        expect(() => resolveRetryConfig({ attempts: 0 })).toThrow('positive integer');
+        expect(() => resolveRetryConfig({ backoff: 0.5 })).toThrow('backoff must be at least 1');
+    });
+});
+
+describe('getRetryDeadline', () => {
+    it('covers the timeouts of all attempts and the delays between them', () => {
+        expect(getRetryDeadline({ timeout: 1000, retry: DEFAULT_RETRY_CONFIG })).toBe(4 * 1000 + 400 + 800 + 1600);
+        expect(getRetryDeadline({ timeout: 1000, retry: resolveRetryConfig({ attempts: 1 }) })).toBe(1000);
+        expect(getRetryDeadline({ retry: resolveRetryConfig({ attempts: 2, backoff: 1 }) })).toBe(2 * 15000 + 400);
+    });
+});
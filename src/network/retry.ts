@@ -0,0 +1,164 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { LiteRoundRobinEngine } from 'ton-lite-client';
+
+import { RetryConfig } from '../config/RetryConfig';
+import { sleep } from '../utils';
+
+export type ResolvedRetryConfig = Required<RetryConfig>;
+
+/**
+ * Request settings shared by all API clients created from the config.
+ */
+export type ClientOptions = {
+    /**
+     * Timeout of a single request attempt, in milliseconds.
+     */
+    timeout?: number;
+    retry: ResolvedRetryConfig;
+};
+
+export const DEFAULT_RETRY_CONFIG: ResolvedRetryConfig = {
+    attempts: 4,
+    initialDelay: 400,
+    backoff: 2,
+    statusCodes: [429],
+};
+
+export function resolveRetryConfig(retry?: RetryConfig): ResolvedRetryConfig {
+    const resolved = { ...DEFAULT_RETRY_CONFIG, ...retry };
+    if (!Number.isInteger(resolved.attempts) || resolved.attempts < 1) {
+        throw new Error('Retry attempts must be a positive integer');
+    }
+    if (resolved.initialDelay < 0 || resolved.backoff < 1) {
+        throw new Error('Retry initial delay must not be negative and backoff must be at least 1');
+    }
+
+    return resolved;
+}
+
+// Upper bound of the default request timeouts of the API clients
+const DEFAULT_ATTEMPT_TIMEOUT = 15000;
+
+/**
+ * Returns how long a request may take with all its retries: the timeout of every attempt and the backoff delays in between.
+ */
+export function getRetryDeadline(options: ClientOptions): number {
+    const { attempts, initialDelay, backoff } = options.retry;
+    let delays = 0;
+    for (let attempt = 1, delay = initialDelay; attempt < attempts; attempt++, delay *= backoff) {
+        delays += delay;
+    }
+
+    return attempts * (options.timeout ?? DEFAULT_ATTEMPT_TIMEOUT) + delays;
+}
+
+export function withTimeout<T>(promise: Promise<T>, timeout: number, name: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Request to ${name} timed out after ${timeout}ms`)), timeout);
+    });
+
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Calls `fn` until it succeeds or the attempts run out, waiting with exponential backoff in between.
+ * Errors for which `isRetryable` returns false are thrown right away.
+ */
+export async function withRetry<T>(
+    retry: ResolvedRetryConfig,
+    fn: () => Promise<T>,
+    isRetryable: (e: unknown) => boolean = () => true,
+): Promise<T> {
+    let delay = retry.initialDelay;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (e) {
+            if (attempt >= retry.attempts || !isRetryable(e)) {
+                throw e;
+            }
+        }
+        await sleep(delay);
+        delay *= retry.backoff;
+    }
+}
+
+function isRetryableAxiosError(e: unknown, retry: ResolvedRetryConfig): boolean {
+    if (!axios.isAxiosError(e)) {
+        return false;
+    }
+
+    const status = (e as AxiosError).response?.status;
+    // No response means a network error or a timeout
+    return status === undefined || retry.statusCodes.includes(status);
+}
+
+/**
+ * Axios adapter for `TonClient` and `TonClient4` that retries failed requests according to the retry config.
+ */
+export function createRetryingHttpAdapter(retry: ResolvedRetryConfig): AxiosAdapter {
+    return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> =>
+        withRetry(
+            retry,
+            () => axios({ ...config, adapter: undefined }),
+            (e) => isRetryableAxiosError(e, retry),
+        );
+}
+
+class RetryableResponseError extends Error {
+    constructor(readonly response: Response) {
+        super(`Request failed with status code ${response.status}`);
+    }
+}
+
+/**
+ * `fetch` for `TonApiClient` that applies the request timeout and retries failed requests according to the retry config.
+ */
+export function createRetryingFetch(options: ClientOptions): typeof fetch {
+    return (input, init) =>
+        withRetry(
+            options.retry,
+            async () => {
+                const response = await fetch(input, {
+                    ...init,
+                    signal:
+                        init?.signal ??
+                        (options.timeout === undefined ? undefined : AbortSignal.timeout(options.timeout)),
+                });
+                if (options.retry.statusCodes.includes(response.status)) {
+                    throw new RetryableResponseError(response);
+                }
+                return response;
+            },
+            (e) => !(e instanceof Error && e.name === 'AbortError' && init?.signal?.aborted),
+        ).catch((e) => {
+            // Give the last response back to the client, so that it reports the error as usual
+            if (e instanceof RetryableResponseError) {
+                return e.response;
+            }
+            throw e;
+        });
+}
+
+/**
+ * Creates a lite client engine that applies the request timeout and retry config to every query.
+ */
+export function createRetryingLiteEngine(
+    engines: ConstructorParameters<typeof LiteRoundRobinEngine>[0],
+    options: ClientOptions,
+): LiteRoundRobinEngine {
+    const engine = new LiteRoundRobinEngine(engines);
+    const query = engine.query.bind(engine);
+    const { timeout } = options;
+
+    engine.query = ((f, req, args) =>
+        withRetry(options.retry, () => {
+            if (timeout === undefined) {
+                return query(f, req, args);
+            }
+            return withTimeout(query(f, req, { ...args, timeout }), timeout, 'liteserver');
+        })) as LiteRoundRobinEngine['query'];
+
+    return engine;
+}
@@ -0,0 +1,25 @@
+import type { Blockchain } from '@ton/sandbox';
+
+import { BlueprintTonClient } from '../NetworkProvider';
+
+/**
+ * Seed of the treasury wallet used as a sender on the sandbox network.
+ */
+export const SANDBOX_TREASURY_SEED = 'deployer';
+
+export function loadSandbox(): typeof import('@ton/sandbox') {
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        return require('@ton/sandbox');
+    } catch (_) {
+        throw new Error('Sandbox network was chosen, but @ton/sandbox is not installed');
+    }
+}
+
+export async function createSandboxBlockchain(): Promise<Blockchain> {
+    return await loadSandbox().Blockchain.create();
+}
+
+export function isSandboxBlockchain(client: BlueprintTonClient): client is Blockchain {
+    return 'treasury' in client && 'snapshot' in client;
+}
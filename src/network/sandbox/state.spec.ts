@@ -0,0 +1,125 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+
+import { Blockchain } from '@ton/sandbox';
+import { beginCell, Dictionary, toNano } from '@ton/core';
+
+import { loadSandboxState, saveSandboxState } from './state';
+import { NetworkProvider } from '../NetworkProvider';
+
+describe('sandbox state', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blueprint-sandbox-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('restores accounts, libs and time', async () => {
+        const blockchain = await Blockchain.create();
+        const treasury = await blockchain.treasury('treasury');
+        const receiver = await blockchain.treasury('receiver');
+        await treasury.send({ to: receiver.address, value: toNano('1.5') });
+
+        const lib = beginCell().storeUint(0xdeadbeef, 32).endCell();
+        const libs = Dictionary.empty(Dictionary.Keys.BigUint(256), Dictionary.Values.Cell());
+        libs.set(BigInt('0x' + lib.hash().toString('hex')), lib);
+        blockchain.libs = beginCell().storeDictDirect(libs).endCell();
+        blockchain.now = 1700000000;
+
+        const file = path.join(dir, 'state.json');
+        await saveSandboxState(blockchain, file);
+
+        const restored = await Blockchain.create();
+        expect(await loadSandboxState(restored, file)).toBe(true);
+
+        expect(restored.now).toBe(1700000000);
+        expect(restored.libs?.equals(blockchain.libs)).toBe(true);
+        for (const address of [treasury.address, receiver.address]) {
+            const expected = await blockchain.getContract(address);
+            const actual = await restored.getContract(address);
+            expect(actual.balance).toBe(expected.balance);
+            expect(actual.accountState?.type).toBe('active');
+            expect(actual.lastTransactionLt).toBe(expected.lastTransactionLt);
+        }
+        expect(restored.snapshot().lt).toBe(blockchain.snapshot().lt);
+    });
+
+    it('returns false when there is no saved state', async () => {
+        const blockchain = await Blockchain.create();
+        expect(await loadSandboxState(blockchain, path.join(dir, 'missing.json'))).toBe(false);
+    });
+});
+
+describe('runWithSandboxState', () => {
+    const cwd = process.cwd();
+    let dir: string;
+    let state: typeof import('./state');
+    let sandbox: typeof import('@ton/sandbox');
+    let blockchain: Blockchain;
+    let provider: NetworkProvider;
+    let registry: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blueprint-sandbox-run-'));
+        process.chdir(dir);
+        // Project paths are resolved against the working directory when the modules are loaded
+        jest.resetModules();
+        state = await import('./state');
+        // The sandbox must use the same @ton/core module as the reloaded state module
+        sandbox = await import('@ton/sandbox');
+
+        blockchain = await sandbox.Blockchain.create();
+        registry = path.join(state.SANDBOX_DEPLOYMENTS_DIR, 'sandbox.json');
+        provider = {
+            api: () => blockchain,
+            deployments: () => ({ path: () => registry }),
+        } as unknown as NetworkProvider;
+        await fs.mkdir(path.dirname(registry), { recursive: true });
+    });
+
+    afterEach(async () => {
+        process.chdir(cwd);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('saves the state after the script succeeds', async () => {
+        await state.runWithSandboxState(provider, async () => {
+            await blockchain.treasury('treasury');
+            await fs.writeFile(registry, 'deployed');
+        });
+
+        expect(await fs.readFile(registry, 'utf-8')).toBe('deployed');
+        expect(await state.loadSandboxState(await sandbox.Blockchain.create())).toBe(true);
+    });
+
+    it('rolls back the deployments recorded by a failed script', async () => {
+        await fs.writeFile(registry, 'before');
+
+        await expect(
+            state.runWithSandboxState(provider, async () => {
+                await fs.writeFile(registry, 'deployed');
+                throw new Error('script failed');
+            }),
+        ).rejects.toThrow('script failed');
+
+        expect(await fs.readFile(registry, 'utf-8')).toBe('before');
+        expect(await state.loadSandboxState(await sandbox.Blockchain.create())).toBe(false);
+    });
+
+    it('removes the registry created by a failed script', async () => {
+        await expect(
+            state.runWithSandboxState(provider, async () => {
+                await fs.writeFile(registry, 'deployed');
+                throw new Error('script failed');
+            }),
+        ).rejects.toThrow('script failed');
+
+        expect(existsSync(registry)).toBe(false);
+    });
+});
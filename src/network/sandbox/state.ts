@@ -0,0 +1,189 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+
+import type { Blockchain, BlockchainSnapshot, LogsVerbosity } from '@ton/sandbox';
+import { Address, beginCell, Cell, loadShardAccount, storeShardAccount } from '@ton/core';
+
+import { TEMP_DIR } from '../../paths';
+import { NetworkProvider } from '../NetworkProvider';
+import { isSandboxBlockchain } from './sandbox';
+
+const SANDBOX_STATE_VERSION = 1;
+
+export const SANDBOX_DIR = path.join(TEMP_DIR, 'sandbox');
+export const SANDBOX_STATE_FILE = path.join(SANDBOX_DIR, 'state.json');
+export const SANDBOX_SNAPSHOTS_DIR = path.join(SANDBOX_DIR, 'snapshots');
+/**
+ * Deployments made on the sandbox network only exist in its state, so they are recorded next to it
+ * instead of the committed `deployments` directory.
+ */
+export const SANDBOX_DEPLOYMENTS_DIR = path.join(SANDBOX_DIR, 'deployments');
+
+type SerializedBlockId = {
+    workchain: number;
+    shard: string;
+    seqno: number;
+    rootHash: string;
+    fileHash: string;
+};
+
+type SerializedSandboxState = {
+    version: number;
+    contracts: {
+        address: string;
+        account: string;
+        lastTxTime: number;
+        verbosity?: Partial<LogsVerbosity>;
+    }[];
+    networkConfig: string;
+    lt: string;
+    time?: number;
+    verbosity: LogsVerbosity;
+    libs?: string;
+    nextCreateWalletIndex: number;
+    prevBlocksInfo?: {
+        lastMcBlocks: SerializedBlockId[];
+        prevKeyBlock: SerializedBlockId;
+        lastMcBlocks100?: SerializedBlockId[];
+    };
+    randomSeed?: string;
+};
+
+type BlockId = NonNullable<BlockchainSnapshot['prevBlocksInfo']>['prevKeyBlock'];
+
+function serializeBlockId(id: BlockId): SerializedBlockId {
+    return {
+        workchain: id.workchain,
+        shard: id.shard.toString(),
+        seqno: id.seqno,
+        rootHash: id.rootHash.toString('base64'),
+        fileHash: id.fileHash.toString('base64'),
+    };
+}
+
+function deserializeBlockId(id: SerializedBlockId): BlockId {
+    return {
+        workchain: id.workchain,
+        shard: BigInt(id.shard),
+        seqno: id.seqno,
+        rootHash: Buffer.from(id.rootHash, 'base64'),
+        fileHash: Buffer.from(id.fileHash, 'base64'),
+    };
+}
+
+export function serializeSandboxSnapshot(snapshot: BlockchainSnapshot): SerializedSandboxState {
+    return {
+        version: SANDBOX_STATE_VERSION,
+        contracts: snapshot.contracts.map((contract) => ({
+            address: contract.address.toRawString(),
+            account: beginCell().store(storeShardAccount(contract.account)).endCell().toBoc().toString('base64'),
+            lastTxTime: contract.lastTxTime,
+            verbosity: contract.verbosity,
+        })),
+        networkConfig: snapshot.networkConfig,
+        lt: snapshot.lt.toString(),
+        time: snapshot.time,
+        verbosity: snapshot.verbosity,
+        libs: snapshot.libs?.toBoc().toString('base64'),
+        nextCreateWalletIndex: snapshot.nextCreateWalletIndex,
+        prevBlocksInfo: snapshot.prevBlocksInfo && {
+            lastMcBlocks: snapshot.prevBlocksInfo.lastMcBlocks.map(serializeBlockId),
+            prevKeyBlock: serializeBlockId(snapshot.prevBlocksInfo.prevKeyBlock),
+            lastMcBlocks100: snapshot.prevBlocksInfo.lastMcBlocks100?.map(serializeBlockId),
+        },
+        randomSeed: snapshot.randomSeed?.toString('base64'),
+    };
+}
+
+export function deserializeSandboxSnapshot(state: SerializedSandboxState): BlockchainSnapshot {
+    if (state.version !== SANDBOX_STATE_VERSION) {
+        throw new Error(`Unsupported sandbox state version ${state.version}, expected ${SANDBOX_STATE_VERSION}`);
+    }
+
+    return {
+        contracts: state.contracts.map((contract) => ({
+            address: Address.parse(contract.address),
+            account: loadShardAccount(Cell.fromBase64(contract.account).beginParse()),
+            lastTxTime: contract.lastTxTime,
+            verbosity: contract.verbosity,
+        })),
+        networkConfig: state.networkConfig,
+        lt: BigInt(state.lt),
+        time: state.time,
+        verbosity: state.verbosity,
+        libs: state.libs === undefined ? undefined : Cell.fromBase64(state.libs),
+        nextCreateWalletIndex: state.nextCreateWalletIndex,
+        prevBlocksInfo: state.prevBlocksInfo && {
+            lastMcBlocks: state.prevBlocksInfo.lastMcBlocks.map(deserializeBlockId),
+            prevKeyBlock: deserializeBlockId(state.prevBlocksInfo.prevKeyBlock),
+            lastMcBlocks100: state.prevBlocksInfo.lastMcBlocks100?.map(deserializeBlockId),
+        },
+        randomSeed: state.randomSeed === undefined ? undefined : Buffer.from(state.randomSeed, 'base64'),
+    };
+}
+
+export function getSandboxSnapshotPath(name: string): string {
+    if (!/^[\w-]+$/.test(name)) {
+        throw new Error(`Invalid snapshot name '${name}', only letters, digits, '_' and '-' are allowed`);
+    }
+
+    return path.join(SANDBOX_SNAPSHOTS_DIR, `${name}.json`);
+}
+
+/**
+ * Returns the path of the deployment registry saved together with the snapshot.
+ */
+export function getSandboxSnapshotDeploymentsPath(name: string): string {
+    return getSandboxSnapshotPath(name).replace(/\.json$/, '.deployments.json');
+}
+
+/**
+ * Writes the full state of the sandbox blockchain (accounts, config, lt and time) to a file.
+ */
+export async function saveSandboxState(blockchain: Blockchain, file: string = SANDBOX_STATE_FILE): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(serializeSandboxSnapshot(blockchain.snapshot())));
+}
+
+/**
+ * Restores the sandbox blockchain from a file written by {@link saveSandboxState}.
+ * @returns false if there is no saved state to restore.
+ */
+export async function loadSandboxState(blockchain: Blockchain, file: string = SANDBOX_STATE_FILE): Promise<boolean> {
+    if (!existsSync(file)) {
+        return false;
+    }
+
+    const state = JSON.parse(await fs.readFile(file, 'utf-8')) as SerializedSandboxState;
+    await blockchain.loadFrom(deserializeSandboxSnapshot(state));
+
+    return true;
+}
+
+/**
+ * Runs the script and saves the sandbox state after it, so that the next `blueprint run --sandbox` continues from it.
+ * If the script fails, the state is not saved and the deployments it recorded are rolled back, so that the registry
+ * keeps matching the saved state. Other networks only run the script.
+ */
+export async function runWithSandboxState<T>(provider: NetworkProvider, script: () => Promise<T>): Promise<T> {
+    const api = provider.api();
+    if (!isSandboxBlockchain(api)) {
+        return await script();
+    }
+
+    const registry = provider.deployments().path();
+    const recorded = existsSync(registry) ? await fs.readFile(registry) : undefined;
+    try {
+        const result = await script();
+        await saveSandboxState(api);
+        return result;
+    } catch (e) {
+        if (recorded === undefined) {
+            await fs.rm(registry, { force: true });
+        } else {
+            await fs.writeFile(registry, recorded);
+        }
+        throw e;
+    }
+}
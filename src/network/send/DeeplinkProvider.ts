@@ -1,7 +1,7 @@
-import { Address, beginCell, Cell, StateInit, storeStateInit } from '@ton/core';
+import { Address, beginCell, Cell, SendMode, StateInit, storeStateInit } from '@ton/core';
 import qrcode from 'qrcode-terminal';
 
-import { SendProvider } from './SendProvider';
+import { assertDefaultSendMode, SendProvider, SendProviderMessage, SendProviderOptions } from './SendProvider';
 import { tonDeepLink } from '../../utils';
 import { UIProvider } from '../../ui/UIProvider';
 import { Network } from '../Network';
@@ -19,13 +19,23 @@ export class DeeplinkProvider implements SendProvider {
         return;
     }
 
-    async sendTransaction(address: Address, amount: bigint, payload?: Cell, stateInit?: StateInit) {
+    async sendTransaction(
+        address: Address,
+        amount: bigint,
+        payload?: Cell,
+        stateInit?: StateInit,
+        options?: SendProviderOptions,
+    ) {
+        // ton:// links have no way to pass a send mode, the wallet always uses its default one
+        assertDefaultSendMode(options?.sendMode, 'Deep link sender');
+
         const deepLink = tonDeepLink(
             address,
             amount,
             payload,
             stateInit ? beginCell().storeWritable(storeStateInit(stateInit)).endCell() : undefined,
             this.#network === 'testnet',
+            options?.bounce ?? true,
         );
 
         try {
@@ -50,6 +60,24 @@ export class DeeplinkProvider implements SendProvider {
         }
     }
 
+    async sendBatch(messages: SendProviderMessage[], sendMode?: SendMode) {
+        assertDefaultSendMode(sendMode, 'Deep link sender');
+
+        if (messages.length > 1) {
+            this.#ui.write(
+                `ton:// deep links can carry only one message, the batch will be sent as ${messages.length} separate transactions`,
+            );
+        }
+
+        for (let i = 0; i < messages.length; i++) {
+            if (messages.length > 1) {
+                this.#ui.write(`\nMessage ${i + 1}/${messages.length}:`);
+            }
+            const { address, amount, payload, stateInit, bounce } = messages[i];
+            await this.sendTransaction(address, amount, payload, stateInit, { bounce });
+        }
+    }
+
     address(): Address | undefined {
         return undefined;
     }
@@ -0,0 +1,136 @@
+import path from 'path';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+import { Address, Cell, ContractProvider, external, loadMessage, toNano } from '@ton/core';
+import { Blockchain } from '@ton/sandbox';
+import { keyPairFromSeed } from '@ton/crypto';
+import { WalletContractV5R1 } from '@ton/ton';
+
+import { ExternalSignerProvider } from './ExternalSignerProvider';
+import { BlueprintTonClient } from '../NetworkProvider';
+import { BufferedUIProvider } from '../../ui/BufferedUIProvider';
+
+const seed = Buffer.alloc(32, 5);
+const keyPair = keyPairFromSeed(seed);
+const fixture = path.join(__dirname, 'signer.fixture.js');
+
+function signerCommand(mode?: string) {
+    return `node "${fixture}" ${seed.toString('hex')}${mode === undefined ? '' : ` ${mode}`}`;
+}
+
+/**
+ * Client backed by the sandbox, deploying the wallet with its first external message.
+ */
+function createSandboxClient(blockchain: Blockchain): BlueprintTonClient {
+    return {
+        provider: (address: Address, init?: { code?: Cell; data?: Cell } | null): ContractProvider => {
+            const provider = blockchain.provider(address, init && { code: init.code, data: init.data });
+            return {
+                ...provider,
+                getState: () => provider.getState(),
+                get: (name, args) => provider.get(name, args),
+                external: async (body) => {
+                    const active = (await provider.getState()).state.type === 'active';
+                    await blockchain.sendMessage(external({ to: address, init: active ? undefined : init, body }));
+                },
+            };
+        },
+    } as unknown as BlueprintTonClient;
+}
+
+describe('ExternalSignerProvider', () => {
+    const wallet = WalletContractV5R1.create({
+        workchain: 0,
+        publicKey: keyPair.publicKey,
+        walletId: { networkGlobalId: -3 },
+    });
+    let blockchain: Blockchain;
+
+    const createProvider = (signer: string) =>
+        new ExternalSignerProvider({
+            signer,
+            version: 'v5r1',
+            client: createSandboxClient(blockchain),
+            ui: new BufferedUIProvider(),
+            network: 'testnet',
+        });
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+    });
+
+    it('derives the wallet from the public key of the signer', async () => {
+        const provider = createProvider(signerCommand());
+
+        await provider.connect();
+
+        expect(provider.address()?.equals(wallet.address)).toBe(true);
+    });
+
+    it('sends transfers signed by the signer', async () => {
+        const treasury = await blockchain.treasury('treasury');
+        await treasury.send({ to: wallet.address, value: toNano('10'), bounce: false });
+        const recipient = new Address(0, Buffer.alloc(32, 9));
+        const provider = createProvider(signerCommand());
+        await provider.connect();
+
+        const { boc } = await provider.sendTransaction(recipient, toNano('1'), undefined, undefined, { bounce: false });
+
+        expect((await blockchain.getContract(recipient)).balance).toBeGreaterThan(toNano('0.9'));
+        const message = loadMessage(Cell.fromBase64(boc).beginParse());
+        expect(message.info.type).toBe('external-in');
+        expect(message.info.dest instanceof Address && message.info.dest.equals(wallet.address)).toBe(true);
+    });
+
+    it('rejects invalid signatures', async () => {
+        const provider = createProvider(signerCommand('bad-signature'));
+        await provider.connect();
+
+        await expect(provider.sendTransaction(new Address(0, Buffer.alloc(32, 9)), toNano('1'))).rejects.toThrow(
+            'External signer returned an invalid signature',
+        );
+    });
+
+    it('reports a failed signer command', async () => {
+        await expect(createProvider(signerCommand('fail')).connect()).rejects.toThrow(
+            'External signer failed to handle the publicKey request: Signer command exited with code 2',
+        );
+    });
+
+    describe('over HTTP', () => {
+        let server: Server;
+        let status: number;
+        let url: string;
+
+        beforeEach(async () => {
+            status = 200;
+            server = createServer((req, res) => {
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ publicKey: keyPair.publicKey.toString('hex') }));
+            });
+            await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+            url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sign`;
+        });
+
+        afterEach(async () => {
+            await new Promise((resolve) => server.close(resolve));
+        });
+
+        it('requests the public key', async () => {
+            const provider = createProvider(url);
+
+            await provider.connect();
+
+            expect(provider.address()?.equals(wallet.address)).toBe(true);
+        });
+
+        it('reports HTTP errors', async () => {
+            status = 500;
+
+            await expect(createProvider(url).connect()).rejects.toThrow(
+                'External signer failed to handle the publicKey request: Request failed with status code 500',
+            );
+        });
+    });
+});
@@ -0,0 +1,235 @@
+import { spawn } from 'child_process';
+
+import axios from 'axios';
+import {
+    Address,
+    beginCell,
+    Cell,
+    Contract,
+    ContractProvider,
+    external,
+    MessageRelaxed,
+    SendMode,
+    StateInit,
+    storeMessage,
+} from '@ton/core';
+import { signVerify } from '@ton/crypto';
+
+import { SendProvider, SendProviderMessage, SendProviderOptions } from './SendProvider';
+import { UIProvider } from '../../ui/UIProvider';
+import { BlueprintTonClient } from '../NetworkProvider';
+import { Network } from '../Network';
+import { createInternalMessage, createWalletContract, walletMaxMessages, WalletVersion } from './wallets';
+
+interface SignableWalletInstance extends Contract {
+    getSeqno(provider: ContractProvider): Promise<number>;
+
+    createTransfer(args: {
+        seqno: number;
+        signer: (message: Cell) => Promise<Buffer>;
+        messages: MessageRelaxed[];
+        sendMode: SendMode;
+    }): Promise<Cell>;
+}
+
+/**
+ * Request sent to the external signer, as JSON on the standard input of the command or as the body of a POST request.
+ */
+export type ExternalSignerRequest =
+    | {
+          type: 'publicKey';
+          network: Network;
+      }
+    | {
+          type: 'sign';
+          network: Network;
+          /**
+           * Friendly address of the wallet the transfer is sent from.
+           */
+          wallet: string;
+          /**
+           * Hex-encoded hash of the cell to sign.
+           */
+          hash: string;
+          /**
+           * Base64-encoded BOC of the cell to sign, for signers that show the transfer before signing.
+           */
+          cell: string;
+      };
+
+type ExternalSignerProviderParams = {
+    /**
+     * Shell command to run for every request, or an http(s) URL to POST requests to.
+     */
+    signer: string;
+    version: WalletVersion;
+    workchain?: number;
+    walletId?: number;
+    subwalletNumber?: number;
+    client: BlueprintTonClient;
+    ui: UIProvider;
+    network: Network;
+};
+
+// Wallets older than v3 can only be signed with a secret key
+const signableVersions: WalletVersion[] = ['v3r1', 'v3r2', 'v4', 'v4r1', 'v4r2', 'v5r1'];
+
+function runSignerCommand(command: string, request: ExternalSignerRequest): Promise<string> {
+    return new Promise((resolve, reject) => {
+        // stderr is inherited, so that the signer can report progress or ask for confirmation
+        const child = spawn(command, { shell: true, stdio: ['pipe', 'pipe', 'inherit'] });
+        let stdout = '';
+        child.stdout.on('data', (chunk) => (stdout += chunk));
+        child.on('error', reject);
+        child.on('close', (code) => {
+            if (code !== 0) {
+                reject(new Error(`Signer command exited with code ${code}`));
+                return;
+            }
+            resolve(stdout);
+        });
+        child.stdin.end(JSON.stringify(request));
+    });
+}
+
+export type ExternalSignerSendResult = {
+    /**
+     * Base64-encoded BOC of the external message sent to the wallet.
+     */
+    boc: string;
+};
+
+/**
+ * Sends from a wallet whose key is held by an external signer: a local command or an HTTP endpoint.
+ * Blueprint builds the unsigned transfer, asks the signer for a signature and broadcasts the signed external message,
+ * so that the secret key never has to be available to the scripts.
+ */
+export class ExternalSignerProvider implements SendProvider {
+    #params: ExternalSignerProviderParams;
+    #wallet?: SignableWalletInstance;
+    #publicKey?: Buffer;
+
+    constructor(params: ExternalSignerProviderParams) {
+        if (!signableVersions.includes(params.version)) {
+            throw new Error(
+                `Wallet version ${params.version} cannot be used with an external signer, expected one of ${signableVersions.join(', ')}`,
+            );
+        }
+        this.#params = params;
+    }
+
+    async #request(request: ExternalSignerRequest): Promise<Record<string, unknown>> {
+        const { signer } = this.#params;
+        try {
+            if (/^https?:\/\//.test(signer)) {
+                return (await axios.post(signer, request)).data;
+            }
+            return JSON.parse(await runSignerCommand(signer, request));
+        } catch (e) {
+            throw new Error(`External signer failed to handle the ${request.type} request: ${(e as Error).message}`);
+        }
+    }
+
+    #connectedWallet(): SignableWalletInstance {
+        if (this.#wallet === undefined) {
+            throw new Error('External signer is not connected');
+        }
+        return this.#wallet;
+    }
+
+    async #sign(message: Cell): Promise<Buffer> {
+        const hash = message.hash();
+        const response = await this.#request({
+            type: 'sign',
+            network: this.#params.network,
+            wallet: this.#connectedWallet().address.toString({ testOnly: this.#params.network === 'testnet' }),
+            hash: hash.toString('hex'),
+            cell: message.toBoc().toString('base64'),
+        });
+        if (typeof response?.signature !== 'string') {
+            throw new Error('External signer did not return a signature');
+        }
+
+        const signature = Buffer.from(response.signature, 'hex');
+        if (signature.length !== 64 || !signVerify(hash, signature, this.#publicKey!)) {
+            throw new Error('External signer returned an invalid signature');
+        }
+        return signature;
+    }
+
+    async connect() {
+        const response = await this.#request({ type: 'publicKey', network: this.#params.network });
+        const publicKey = typeof response?.publicKey === 'string' ? Buffer.from(response.publicKey, 'hex') : undefined;
+        if (publicKey?.length !== 32) {
+            throw new Error('External signer returned an invalid public key, expected 32 hex-encoded bytes');
+        }
+
+        this.#publicKey = publicKey;
+        this.#wallet = createWalletContract({ ...this.#params, publicKey }) as SignableWalletInstance;
+
+        const formattedAddress = this.#wallet.address.toString({
+            testOnly: this.#params.network === 'testnet',
+            bounceable: false,
+        });
+        this.#params.ui.write(`Connected to external signer wallet at address: ${formattedAddress}\n`);
+    }
+
+    async sendTransaction(
+        address: Address,
+        amount: bigint,
+        payload?: Cell,
+        stateInit?: StateInit,
+        options?: SendProviderOptions,
+    ): Promise<ExternalSignerSendResult> {
+        return await this.sendBatch(
+            [{ address, amount, payload, stateInit, bounce: options?.bounce }],
+            options?.sendMode,
+        );
+    }
+
+    async sendBatch(
+        messages: SendProviderMessage[],
+        sendMode: SendMode = SendMode.PAY_GAS_SEPARATELY,
+    ): Promise<ExternalSignerSendResult> {
+        const wallet = this.#connectedWallet();
+        const maxMessages = walletMaxMessages[this.#params.version];
+        if (messages.length > maxMessages) {
+            throw new Error(
+                `Wallet ${wallet.address.toString()} can send at most ${maxMessages} messages at once, got ${messages.length}`,
+            );
+        }
+
+        const provider = this.#params.client.provider(
+            wallet.address,
+            wallet.init && {
+                code: wallet.init.code ?? undefined,
+                data: wallet.init.data ?? undefined,
+            },
+        );
+
+        this.#params.ui.setActionPrompt('Waiting for the external signer...');
+        let transfer: Cell;
+        try {
+            transfer = await wallet.createTransfer({
+                seqno: await wallet.getSeqno(provider),
+                signer: (message) => this.#sign(message),
+                messages: messages.map(createInternalMessage),
+                sendMode,
+            });
+        } finally {
+            this.#params.ui.clearActionPrompt();
+        }
+        await provider.external(transfer);
+
+        this.#params.ui.write(
+            messages.length === 1 ? 'Sent transaction' : `Sent transaction with ${messages.length} messages`,
+        );
+
+        const message = external({ to: wallet.address, body: transfer });
+        return { boc: beginCell().store(storeMessage(message)).endCell().toBoc().toString('base64') };
+    }
+
+    address() {
+        return this.#wallet?.address;
+    }
+}
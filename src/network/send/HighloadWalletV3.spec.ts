@@ -0,0 +1,155 @@
+import { Address, Cell, internal, loadMessageRelaxed, loadOutList, MessageRelaxed, SendMode, toNano } from '@ton/core';
+import { keyPairFromSeed, signVerify } from '@ton/crypto';
+
+import { highloadCreatedAt, HighloadWalletV3, nextHighloadQueryId } from './HighloadWalletV3';
+
+const OP_INTERNAL_TRANSFER = 0xae42e5a4;
+
+const keyPair = keyPairFromSeed(Buffer.alloc(32, 1));
+const wallet = HighloadWalletV3.create({ workchain: 0, publicKey: keyPair.publicKey, timeout: 120 });
+
+function messages(count: number): MessageRelaxed[] {
+    return Array.from({ length: count }, (_, i) =>
+        internal({ to: new Address(0, Buffer.alloc(32, i % 256)), value: toNano('0.01') + BigInt(i) }),
+    );
+}
+
+function loadRequest(transfer: Cell) {
+    const slice = transfer.beginParse();
+    const signature = slice.loadBuffer(64);
+    const request = slice.loadRef();
+    const rs = request.beginParse();
+
+    return {
+        signature,
+        request,
+        subwalletId: rs.loadUint(32),
+        message: loadMessageRelaxed(rs.loadRef().beginParse()),
+        mode: rs.loadUint(8),
+        queryId: rs.loadUint(23),
+        createdAt: rs.loadUint(64),
+        timeout: rs.loadUint(22),
+    };
+}
+
+/**
+ * Unpacks a chain of internal transfers into the values of the messages it sends, level by level.
+ */
+function loadTransferChain(message: MessageRelaxed, queryId: number): bigint[][] {
+    const body = message.body.beginParse();
+    expect(body.loadUint(32)).toBe(OP_INTERNAL_TRANSFER);
+    expect(body.loadUint(64)).toBe(queryId);
+
+    const actions = loadOutList(body.loadRef().beginParse());
+    const values: bigint[] = [];
+    let nested: bigint[][] = [];
+    actions.forEach((action, i) => {
+        if (action.type !== 'sendMsg') {
+            throw new Error('Unexpected action ' + action.type);
+        }
+        const isLast = i === actions.length - 1;
+        const destination = action.outMsg.info.dest;
+        if (isLast && destination instanceof Address && destination.equals(wallet.address)) {
+            expect(action.mode).toBe(SendMode.CARRY_ALL_REMAINING_BALANCE);
+            nested = loadTransferChain(action.outMsg, queryId);
+        } else {
+            expect(action.mode).toBe(SendMode.PAY_GAS_SEPARATELY);
+            values.push(action.outMsg.info.type === 'internal' ? action.outMsg.info.value.coins : -1n);
+        }
+    });
+
+    return [values, ...nested];
+}
+
+describe('nextHighloadQueryId', () => {
+    it('increments the bit number', () => {
+        expect(nextHighloadQueryId(0)).toBe(1);
+        expect(nextHighloadQueryId((5 << 10) | 7)).toBe((5 << 10) | 8);
+    });
+
+    it('moves to the next shift after the last bit number', () => {
+        expect(nextHighloadQueryId(1022)).toBe(1 << 10);
+        expect(nextHighloadQueryId((5 << 10) | 1022)).toBe(6 << 10);
+    });
+
+    it('wraps around after the last shift', () => {
+        expect(nextHighloadQueryId((8191 << 10) | 1022)).toBe(0);
+    });
+
+    it('only returns query IDs that fit into 23 bits', () => {
+        let queryId = (8190 << 10) | 1000;
+        for (let i = 0; i < 3000; i++) {
+            queryId = nextHighloadQueryId(queryId);
+            expect(queryId).toBeGreaterThanOrEqual(0);
+            expect(queryId).toBeLessThan(1 << 23);
+            expect(queryId & 1023).toBeLessThanOrEqual(1022);
+        }
+    });
+});
+
+describe('highloadCreatedAt', () => {
+    it('tolerates a clock running ahead by up to 30 seconds', () => {
+        expect(highloadCreatedAt(3600, 1000)).toBe(970);
+    });
+
+    it('stays within the wallet timeout', () => {
+        expect(highloadCreatedAt(60, 1000)).toBe(985);
+        expect(highloadCreatedAt(8, 1000)).toBe(998);
+        expect(highloadCreatedAt(1, 1000)).toBe(1000);
+    });
+});
+
+describe('HighloadWalletV3.createTransfer', () => {
+    const createTransfer = (count: number, queryId = 1234) =>
+        loadRequest(
+            wallet.createTransfer({
+                secretKey: keyPair.secretKey,
+                messages: messages(count),
+                sendMode: SendMode.PAY_GAS_SEPARATELY,
+                queryId,
+                createdAt: 1700000000,
+            }),
+        );
+
+    it('signs the request with all wallet fields', () => {
+        const transfer = createTransfer(1, (3 << 10) | 5);
+
+        expect(signVerify(transfer.request.hash(), transfer.signature, keyPair.publicKey)).toBe(true);
+        expect(transfer.subwalletId).toBe(0x10ad);
+        expect(transfer.queryId).toBe((3 << 10) | 5);
+        expect(transfer.createdAt).toBe(1700000000);
+        expect(transfer.timeout).toBe(120);
+    });
+
+    it('sends a single message directly with the send mode', () => {
+        const transfer = createTransfer(1);
+
+        expect(transfer.mode).toBe(SendMode.PAY_GAS_SEPARATELY);
+        expect(transfer.message.info.type === 'internal' && transfer.message.info.value.coins).toBe(toNano('0.01'));
+    });
+
+    it('packs 254 messages into a single internal transfer', () => {
+        const transfer = createTransfer(254);
+
+        expect(transfer.mode).toBe(SendMode.CARRY_ALL_REMAINING_BALANCE);
+        const chain = loadTransferChain(transfer.message, 1234);
+        expect(chain.map((values) => values.length)).toEqual([254]);
+        expect(chain[0]).toEqual(messages(254).map((m) => (m.info.type === 'internal' ? m.info.value.coins : 0n)));
+    });
+
+    it('chains internal transfers for batches larger than 254 messages', () => {
+        const chain = loadTransferChain(createTransfer(255).message, 1234);
+        expect(chain.map((values) => values.length)).toEqual([253, 2]);
+
+        const longChain = loadTransferChain(createTransfer(1000).message, 1234);
+        expect(longChain.map((values) => values.length)).toEqual([253, 253, 253, 241]);
+        // Messages are sent in order
+        expect(longChain.flat()).toEqual(
+            messages(1000).map((m) => (m.info.type === 'internal' ? m.info.value.coins : 0n)),
+        );
+    });
+
+    it('rejects empty transfers', () => {
+        expect(() => createTransfer(0)).toThrow('at least one message');
+    });
+});
@@ -0,0 +1,175 @@
+import {
+    Address,
+    beginCell,
+    Cell,
+    Contract,
+    contractAddress,
+    ContractProvider,
+    internal,
+    MessageRelaxed,
+    OutActionSendMsg,
+    SendMode,
+    storeMessageRelaxed,
+    storeOutList,
+} from '@ton/core';
+import { sign } from '@ton/crypto';
+
+// https://github.com/ton-blockchain/highload-wallet-contract-v3
+const HIGHLOAD_WALLET_V3_CODE = Cell.fromBase64(
+    'te6cckECEAEAAigAART/APSkE/S88sgLAQIBIAINAgFIAwQAeNAg10vAAQHAYLCRW+EB0NMDAXGwkVvg+kAw+CjHBbORMODTHwGCEK5C5aS6nYBA1yHXTPgqAe1V+wTgMAIBIAUKAgJzBgcAEa3OdqJoa4X/wAIBIAgJABqrtu1E0IEBItch1ws/ABiqO+1E0IMH1yHXCx8CASALDAAbuabu1E0IEBYtch1wsVgA5bi/Ltou37IasJAoQJsO1E0IEBINch9AT0BNM/0xXRBY4b+CMloVIQuZ8ybfgjBaoAFaESuZIwbd6SMDPikjAz4lIwgA30D2+hntAh1yHXCgCVXwN/2zHgkTDiWYAN9A9voZzQAdch1woAk3/bMeCRW+JwgB9vLUgwjXGNEh+QDtRNDT/9Mf9AT0BNM/0xXR+CMhoVIguY4SM234IySqAKESuZJtMt5Y+CMB3lQWdfkQ8qEG0NMf1NMH0wzTCdM/0xXRUWi68qJRWrrypvgjKqFSULzyowT4I7vyo1MEgA30D2+hmdAk1yHXCgDyZJEw4g4B/lMJgA30D2+hjhPQUATXGNIAAfJkyFjPFs+DAc8WjhAwyCTPQM+DhAlQBaGlFM9A4vgAyUA5gA30FwTIy/8Tyx/0ABL0ABLLPxLLFcntVPgPIdDTAAHyZdMCAXGwkl8D4PpAAdcLAcAA8qX6QDH6ADH0AfoAMfoAMYBg1yHTAAEPACDyZdIAAZPUMdGRMOJysfsAtYW/Aw==',
+);
+
+const OP_INTERNAL_TRANSFER = 0xae42e5a4;
+// The last action of a batch is reserved for the internal transfer carrying the rest of the messages
+const MAX_ACTIONS = 254;
+const BIT_NUMBER_SIZE = 10;
+const MAX_BIT_NUMBER = 1022;
+const MAX_SHIFT = 8191;
+
+export const HIGHLOAD_WALLET_V3_DEFAULT_SUBWALLET_ID = 0x10ad;
+export const HIGHLOAD_WALLET_V3_DEFAULT_TIMEOUT = 60 * 60;
+
+// Highload wallets reject messages created in the future, the offset tolerates a local clock running slightly ahead
+const MAX_CREATED_AT_OFFSET = 30;
+
+/**
+ * Returns the `created_at` of a transfer signed now. Transfers created earlier than the wallet's timeout
+ * are rejected as expired, so the offset never takes more than a quarter of the timeout.
+ */
+export function highloadCreatedAt(timeout: number, now: number = Math.floor(Date.now() / 1000)): number {
+    return now - Math.min(MAX_CREATED_AT_OFFSET, Math.floor(timeout / 4));
+}
+
+/**
+ * Returns the query ID following `queryId`. A query ID consists of a 13-bit shift and a 10-bit bit number,
+ * every ID can be used once during the wallet's timeout.
+ */
+export function nextHighloadQueryId(queryId: number): number {
+    const shift = queryId >> BIT_NUMBER_SIZE;
+    const bitNumber = queryId & ((1 << BIT_NUMBER_SIZE) - 1);
+    if (bitNumber < MAX_BIT_NUMBER) {
+        return queryId + 1;
+    }
+
+    return ((shift + 1) % (MAX_SHIFT + 1)) << BIT_NUMBER_SIZE;
+}
+
+/**
+ * Returns a query ID with a random shift, to start from when the last used query ID of the wallet is unknown.
+ */
+export function randomHighloadQueryId(): number {
+    return Math.floor(Math.random() * (MAX_SHIFT + 1)) << BIT_NUMBER_SIZE;
+}
+
+/**
+ * Packs the messages into an internal transfer from the wallet to itself. Batches larger than 254 messages
+ * are sent as a chain of internal transfers.
+ */
+function packActions(wallet: Address, messages: MessageRelaxed[], sendMode: SendMode, queryId: number): MessageRelaxed {
+    const actions: OutActionSendMsg[] = messages
+        .slice(0, messages.length > MAX_ACTIONS ? MAX_ACTIONS - 1 : MAX_ACTIONS)
+        .map((outMsg) => ({ type: 'sendMsg', mode: sendMode, outMsg }));
+    if (messages.length > MAX_ACTIONS) {
+        // Sent last, so that it carries the balance left after the other messages to process the rest of the batch
+        actions.push({
+            type: 'sendMsg',
+            mode: SendMode.CARRY_ALL_REMAINING_BALANCE,
+            outMsg: packActions(wallet, messages.slice(MAX_ACTIONS - 1), sendMode, queryId),
+        });
+    }
+
+    return internal({
+        to: wallet,
+        value: 0n,
+        body: beginCell()
+            .storeUint(OP_INTERNAL_TRANSFER, 32)
+            .storeUint(queryId, 64)
+            .storeRef(beginCell().store(storeOutList(actions)))
+            .endCell(),
+    });
+}
+
+/**
+ * Highload wallet v3: replay protection is based on query IDs instead of seqno, so transfers may be sent
+ * in parallel, and a batch of any size is sent as a chain of internal transfers of up to 254 messages.
+ */
+export class HighloadWalletV3 implements Contract {
+    readonly address: Address;
+    readonly init: { code: Cell; data: Cell };
+    readonly subwalletId: number;
+    readonly timeout: number;
+
+    private constructor(workchain: number, publicKey: Buffer, subwalletId: number, timeout: number) {
+        this.subwalletId = subwalletId;
+        this.timeout = timeout;
+        const data = beginCell()
+            .storeBuffer(publicKey, 32)
+            .storeUint(subwalletId, 32)
+            .storeUint(0, 1 + 1 + 64) // empty old_queries and queries, last_clean_time
+            .storeUint(timeout, 22)
+            .endCell();
+        this.init = { code: HIGHLOAD_WALLET_V3_CODE, data };
+        this.address = contractAddress(workchain, this.init);
+    }
+
+    static create(args: { workchain: number; publicKey: Buffer; walletId?: number | null; timeout?: number }) {
+        return new HighloadWalletV3(
+            args.workchain,
+            args.publicKey,
+            args.walletId ?? HIGHLOAD_WALLET_V3_DEFAULT_SUBWALLET_ID,
+            args.timeout ?? HIGHLOAD_WALLET_V3_DEFAULT_TIMEOUT,
+        );
+    }
+
+    /**
+     * Creates a signed external message body. A single message is sent directly with `sendMode`,
+     * several messages are sent by the wallet to itself as an internal transfer carrying them.
+     */
+    createTransfer(args: {
+        secretKey: Buffer;
+        messages: MessageRelaxed[];
+        sendMode: SendMode;
+        queryId: number;
+        createdAt: number;
+    }): Cell {
+        if (args.messages.length === 0) {
+            throw new Error('Highload wallet transfer must contain at least one message');
+        }
+
+        const [message, mode] =
+            args.messages.length === 1
+                ? [args.messages[0], args.sendMode]
+                : [
+                      packActions(this.address, args.messages, args.sendMode, args.queryId),
+                      // The internal transfer is sent to the wallet itself, it carries its whole balance
+                      SendMode.CARRY_ALL_REMAINING_BALANCE,
+                  ];
+
+        const request = beginCell()
+            .storeUint(this.subwalletId, 32)
+            .storeRef(beginCell().store(storeMessageRelaxed(message)))
+            .storeUint(mode, 8)
+            .storeUint(args.queryId, 23)
+            .storeUint(args.createdAt, 64)
+            .storeUint(this.timeout, 22)
+            .endCell();
+
+        return beginCell().storeBuffer(sign(request.hash(), args.secretKey)).storeRef(request).endCell();
+    }
+
+    async send(provider: ContractProvider, message: Cell) {
+        await provider.external(message);
+    }
+
+    async sendTransfer(provider: ContractProvider, args: Parameters<HighloadWalletV3['createTransfer']>[0]) {
+        await this.send(provider, this.createTransfer(args));
+    }
+
+    async getIsProcessed(provider: ContractProvider, queryId: number): Promise<boolean> {
+        const { stack } = await provider.get('processed?', [
+            { type: 'int', value: BigInt(queryId) },
+            { type: 'int', value: 0n }, // need_clean
+        ]);
+        return stack.readBoolean();
+    }
+}
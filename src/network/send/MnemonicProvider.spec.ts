@@ -0,0 +1,131 @@
+import { Address, Cell, ContractProvider, external, toNano, Transaction } from '@ton/core';
+import { Blockchain } from '@ton/sandbox';
+import { keyPairFromSeed } from '@ton/crypto';
+
+import { MnemonicProvider } from './MnemonicProvider';
+import { HighloadWalletV3 } from './HighloadWalletV3';
+import { BlueprintTonClient } from '../NetworkProvider';
+import { Storage } from '../storage/Storage';
+import { BufferedUIProvider } from '../../ui/BufferedUIProvider';
+import { sleep } from '../../utils/timer.utils';
+
+jest.mock('../../utils/timer.utils', () => ({
+    sleep: jest.fn(() => Promise.resolve()),
+}));
+
+class MemoryStorage implements Storage {
+    items = new Map<string, string>();
+
+    async setItem(key: string, value: string) {
+        this.items.set(key, value);
+    }
+
+    async getItem(key: string) {
+        return this.items.get(key) ?? null;
+    }
+
+    async removeItem(key: string) {
+        this.items.delete(key);
+    }
+}
+
+/**
+ * Client backed by the sandbox that also keeps the transactions of every account, as the sandbox provider cannot fetch them.
+ */
+function createSandboxClient(blockchain: Blockchain): BlueprintTonClient {
+    const transactions = new Map<string, Transaction[]>();
+
+    return {
+        provider: (address: Address, init?: { code?: Cell; data?: Cell } | null): ContractProvider => {
+            const provider = blockchain.provider(address, init && { code: init.code, data: init.data });
+            return {
+                ...provider,
+                getState: () => provider.getState(),
+                get: (name, args) => provider.get(name, args),
+                external: async (body) => {
+                    const active = (await provider.getState()).state.type === 'active';
+                    const result = await blockchain.sendMessage(
+                        external({ to: address, init: active ? undefined : init, body }),
+                    );
+                    for (const transaction of result.transactions) {
+                        const key = `0:${transaction.address.toString(16).padStart(64, '0')}`;
+                        transactions.set(key, [transaction, ...(transactions.get(key) ?? [])]);
+                    }
+                },
+                getTransactions: async (address: Address) => transactions.get(address.toRawString()) ?? [],
+            };
+        },
+    } as unknown as BlueprintTonClient;
+}
+
+describe('MnemonicProvider with highload-v3', () => {
+    const keyPair = keyPairFromSeed(Buffer.alloc(32, 7));
+    let blockchain: Blockchain;
+    let storage: MemoryStorage;
+    let provider: MnemonicProvider;
+    let wallet: HighloadWalletV3;
+
+    beforeEach(async () => {
+        blockchain = await Blockchain.create();
+        storage = new MemoryStorage();
+        provider = new MnemonicProvider({
+            version: 'highload-v3',
+            secretKey: keyPair.secretKey,
+            client: createSandboxClient(blockchain),
+            ui: new BufferedUIProvider(),
+            network: 'testnet',
+            storage,
+        });
+        wallet = HighloadWalletV3.create({ workchain: 0, publicKey: keyPair.publicKey });
+        expect(provider.address().equals(wallet.address)).toBe(true);
+
+        const treasury = await blockchain.treasury('treasury');
+        await treasury.send({ to: wallet.address, value: toNano('100'), bounce: false });
+        (sleep as jest.Mock).mockClear();
+    });
+
+    const isProcessed = (queryId: number) => blockchain.openContract(wallet).getIsProcessed(queryId);
+
+    it('continues from the saved query ID and rolls over to the next shift', async () => {
+        storage.items.set(wallet.address.toRawString(), String((7 << 10) | 1022));
+
+        const first = await provider.sendTransaction(new Address(0, Buffer.alloc(32, 1)), toNano('1'));
+        const second = await provider.sendTransaction(new Address(0, Buffer.alloc(32, 2)), toNano('1'));
+
+        // Transfers are not awaited, the sandbox has processed them already
+        expect(first.transaction).toBeUndefined();
+        expect(second.transaction).toBeUndefined();
+        expect(sleep).not.toHaveBeenCalled();
+        expect(await isProcessed((7 << 10) | 1022)).toBe(true);
+        expect(await isProcessed(8 << 10)).toBe(true);
+        expect(storage.items.get(wallet.address.toRawString())).toBe(String((8 << 10) | 1));
+    });
+
+    it('allocates distinct query IDs to parallel transfers', async () => {
+        storage.items.set(wallet.address.toRawString(), '0');
+
+        await Promise.all(
+            [1, 2, 3].map((i) => provider.sendTransaction(new Address(0, Buffer.alloc(32, i)), toNano('1'))),
+        );
+
+        for (const queryId of [0, 1, 2]) {
+            expect(await isProcessed(queryId)).toBe(true);
+        }
+        expect(storage.items.get(wallet.address.toRawString())).toBe('3');
+    });
+
+    it('sends batches larger than 254 messages', async () => {
+        const recipients = Array.from({ length: 300 }, (_, i) => {
+            const hash = Buffer.alloc(32);
+            hash.writeUInt16BE(i + 1);
+            return new Address(0, hash);
+        });
+
+        await provider.sendBatch(recipients.map((address) => ({ address, amount: toNano('0.01'), bounce: false })));
+
+        for (const address of recipients) {
+            expect((await blockchain.getContract(address)).balance).toBeGreaterThan(0n);
+        }
+        expect(await isProcessed(Number(storage.items.get(wallet.address.toRawString())) - 1)).toBe(true);
+    });
+});
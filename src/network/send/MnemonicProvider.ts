@@ -2,67 +2,103 @@ import { Buffer } from 'buffer';
 
 import {
     Address,
+    beginCell,
     Cell,
     Contract,
     ContractProvider,
+    external,
+    Message,
     MessageRelaxed,
     openContract,
     OpenedContract,
     SendMode,
     StateInit,
+    storeMessage,
 } from '@ton/core';
 import { KeyPair, keyPairFromSecretKey } from '@ton/crypto';
 
-import { SendProvider } from './SendProvider';
+import { SendProvider, SendProviderMessage, SendProviderOptions } from './SendProvider';
 import { UIProvider } from '../../ui/UIProvider';
 import { BlueprintTonClient } from '../NetworkProvider';
 import { Network } from '../Network';
-import { wallets, WalletVersion } from './wallets';
+import { createInternalMessage, createWalletContract, walletMaxMessages, WalletVersion } from './wallets';
+import { highloadCreatedAt, HighloadWalletV3, nextHighloadQueryId, randomHighloadQueryId } from './HighloadWalletV3';
+import { Storage } from '../storage/Storage';
+import { findTransactionByExtMessageHash } from '../transactions';
+import { BlueprintTransaction, toBlueprintTransaction } from '../BlueprintTransaction';
+import { getNormalizedExtMessageHash, sleep } from '../../utils';
 
 interface WalletInstance extends Contract {
     getSeqno(provider: ContractProvider): Promise<number>;
 
-    sendTransfer(
-        provider: ContractProvider,
-        args: {
-            seqno: number;
-            secretKey: Buffer;
-            messages: MessageRelaxed[];
-            sendMode: SendMode;
-            timeout?: number;
-        },
-    ): Promise<void>;
+    createTransfer(args: {
+        seqno: number;
+        secretKey: Buffer;
+        messages: MessageRelaxed[];
+        message?: MessageRelaxed;
+        sendMode: SendMode;
+        timeout?: number;
+    }): Cell;
+
+    send(provider: ContractProvider, message: Cell): Promise<void>;
 }
 
+export type MnemonicSendResult = {
+    /**
+     * Base64-encoded BOC of the external message sent to the wallet.
+     */
+    boc: string;
+    /**
+     * Wallet transaction that processed the external message. `undefined` for highload wallets, whose transfers are
+     * not awaited so that they can be sent in bulk, use `provider.waitForLastTransaction()` to confirm them.
+     */
+    transaction?: BlueprintTransaction;
+};
+
 type MnemonicProviderParams = {
     version: WalletVersion;
     workchain?: number;
     walletId?: number;
     subwalletNumber?: number;
+    /**
+     * Timeout of highload wallets, in seconds.
+     */
+    timeout?: number;
     secretKey: Buffer;
     client: BlueprintTonClient;
     ui: UIProvider;
     network: Network;
+    /**
+     * Storage for the last query IDs of highload wallets, so that they are not reused by the following runs.
+     */
+    storage?: Storage;
 };
 
+type OpenedWallet =
+    | { type: 'seqno'; contract: OpenedContract<WalletInstance> }
+    | { type: 'highload'; contract: OpenedContract<HighloadWalletV3> };
+
+// Wallets accept a transfer within 60 seconds after it is signed
+const CONFIRMATION_ATTEMPTS = 30;
+const CONFIRMATION_INTERVAL = 2000;
+
 export class MnemonicProvider implements SendProvider {
-    #wallet: OpenedContract<WalletInstance>;
+    #wallet: OpenedWallet;
     #secretKey: Buffer;
     #client: BlueprintTonClient;
     #ui: UIProvider;
     #network: Network;
+    #maxMessages: number;
+    #storage?: Storage;
+    #nextQueryId?: Promise<number>;
+    #savingQueryId: Promise<void> = Promise.resolve();
 
     constructor(params: MnemonicProviderParams) {
-        if (!(params.version in wallets)) {
-            throw new Error(
-                `Unknown wallet version ${params.version}, expected one of ${Object.keys(wallets).join(', ')}`,
-            );
-        }
         this.#client = params.client;
         this.#network = params.network;
         const kp = keyPairFromSecretKey(params.secretKey);
 
-        this.#wallet = openContract<WalletInstance>(this.createWallet(params, kp), (params) =>
+        const contract = openContract<Contract>(this.createWallet(params, kp), (params) =>
             this.#client.provider(
                 params.address,
                 params.init && {
@@ -72,30 +108,47 @@ export class MnemonicProvider implements SendProvider {
                 },
             ),
         );
+        this.#wallet =
+            params.version === 'highload-v3'
+                ? { type: 'highload', contract: contract as OpenedContract<HighloadWalletV3> }
+                : { type: 'seqno', contract: contract as OpenedContract<WalletInstance> };
         this.#secretKey = kp.secretKey;
         this.#ui = params.ui;
+        this.#maxMessages = walletMaxMessages[params.version];
+        this.#storage = params.storage;
     }
 
-    private createWallet(params: MnemonicProviderParams, kp: KeyPair): WalletInstance {
-        if (params.version === 'v5r1') {
-            return wallets[params.version].create({
-                publicKey: kp.publicKey,
-                walletId: {
-                    networkGlobalId: params.network === 'testnet' ? -3 : -239, // networkGlobalId: -3 for Testnet, -239 for Mainnet
-                    context: {
-                        workchain: params.workchain ?? 0,
-                        subwalletNumber: params.subwalletNumber ?? 0,
-                        walletVersion: 'v5r1',
-                    },
-                },
-            });
+    private createWallet(params: MnemonicProviderParams, kp: KeyPair): Contract {
+        return createWalletContract({ ...params, publicKey: kp.publicKey });
+    }
+
+    async #loadNextQueryId(): Promise<number> {
+        const saved = await this.#storage?.getItem(this.address().toRawString());
+        if (saved !== null && saved !== undefined) {
+            return Number(saved);
         }
 
-        return wallets[params.version].create({
-            workchain: params.workchain ?? 0,
-            publicKey: kp.publicKey,
-            walletId: params.walletId,
-        });
+        // Without a saved query ID, a random shift makes collisions with recent runs unlikely
+        return randomHighloadQueryId();
+    }
+
+    /**
+     * Allocates a query ID that is not used by other transfers of this run or of the previous runs.
+     */
+    async #allocateQueryId(): Promise<number> {
+        const queryId = this.#nextQueryId ?? this.#loadNextQueryId();
+        this.#nextQueryId = queryId.then(nextHighloadQueryId);
+
+        const storage = this.#storage;
+        if (storage !== undefined) {
+            // Saves are chained, so that the last one always writes the latest allocated query ID
+            this.#savingQueryId = this.#savingQueryId.then(async () =>
+                storage.setItem(this.address().toRawString(), String(await this.#nextQueryId)),
+            );
+            await this.#savingQueryId;
+        }
+
+        return await queryId;
     }
 
     async connect() {
@@ -111,35 +164,102 @@ export class MnemonicProvider implements SendProvider {
         amount: bigint,
         payload?: Cell | undefined,
         stateInit?: StateInit | undefined,
-    ) {
-        await this.#wallet.sendTransfer({
-            seqno: await this.#wallet.getSeqno(),
+        options?: SendProviderOptions,
+    ): Promise<MnemonicSendResult> {
+        return await this.sendBatch(
+            [{ address, amount, payload, stateInit, bounce: options?.bounce }],
+            options?.sendMode,
+        );
+    }
+
+    /**
+     * Waits until the seqno of the wallet advances, then finds the transaction caused by the external message.
+     */
+    async #waitForTransaction(message: Message, isProcessed: () => Promise<boolean>): Promise<BlueprintTransaction> {
+        const hash = getNormalizedExtMessageHash(message);
+        try {
+            for (let i = 1; i <= CONFIRMATION_ATTEMPTS; i++) {
+                this.#ui.setActionPrompt(`Awaiting confirmation... [Attempt ${i}/${CONFIRMATION_ATTEMPTS}]`);
+                await sleep(CONFIRMATION_INTERVAL);
+                try {
+                    if (!(await isProcessed())) {
+                        continue;
+                    }
+                    const transaction = await findTransactionByExtMessageHash(this.#client, this.address(), hash);
+                    if (transaction !== undefined) {
+                        return toBlueprintTransaction(transaction, this.address());
+                    }
+                } catch (_) {
+                    // Ignore the error and retry
+                }
+            }
+        } finally {
+            this.#ui.clearActionPrompt();
+        }
+
+        throw new Error(
+            `Transaction ${hash.toString('hex')} was not confirmed. Check the wallet's transactions before sending it again`,
+        );
+    }
+
+    async sendBatch(
+        messages: SendProviderMessage[],
+        sendMode: SendMode = SendMode.PAY_GAS_SEPARATELY,
+    ): Promise<MnemonicSendResult> {
+        if (messages.length > this.#maxMessages) {
+            throw new Error(
+                `Wallet ${this.address().toString()} can send at most ${this.#maxMessages} messages at once, got ${messages.length}`,
+            );
+        }
+
+        const internalMessages = messages.map(createInternalMessage);
+        const sent = messages.length === 1 ? 'Sent transaction' : `Sent transaction with ${messages.length} messages`;
+        if (this.#wallet.type === 'highload') {
+            // No seqno to wait for: transfers with different query IDs may be sent in parallel,
+            // and resending the same transfer after a timeout is rejected by the wallet instead of being executed twice.
+            // The transfer is not awaited, the wallet transaction is found by waitForLastTransaction
+            const wallet = this.#wallet.contract;
+            const queryId = await this.#allocateQueryId();
+            const transfer = wallet.createTransfer({
+                secretKey: this.#secretKey,
+                messages: internalMessages,
+                sendMode,
+                queryId,
+                createdAt: highloadCreatedAt(wallet.timeout),
+            });
+            await wallet.send(transfer);
+            this.#ui.write(`${sent} (query ID ${queryId})`);
+
+            return { boc: this.#toBoc(transfer) };
+        }
+
+        const wallet = this.#wallet.contract;
+        const seqno = await wallet.getSeqno();
+        const transfer = wallet.createTransfer({
+            seqno,
             secretKey: this.#secretKey,
-            messages: [
-                {
-                    init: stateInit,
-                    body: payload ?? new Cell(),
-                    info: {
-                        type: 'internal',
-                        ihrDisabled: true,
-                        ihrFee: 0n,
-                        bounce: true,
-                        bounced: false,
-                        dest: address,
-                        value: { coins: amount },
-                        forwardFee: 0n,
-                        createdAt: 0,
-                        createdLt: 0n,
-                    },
-                },
-            ],
-            sendMode: SendMode.PAY_GAS_SEPARATELY,
+            messages: internalMessages,
+            // v1 wallets accept a single message only
+            message: internalMessages[0],
+            sendMode,
         });
+        await wallet.send(transfer);
+
+        const transaction = await this.#waitForTransaction(
+            external({ to: this.address(), body: transfer }),
+            async () => (await wallet.getSeqno()) > seqno,
+        );
+        this.#ui.write(`${sent} (tx ${transaction.hash})`);
+
+        return { boc: this.#toBoc(transfer), transaction };
+    }
 
-        this.#ui.write('Sent transaction');
+    #toBoc(transfer: Cell): string {
+        const message = external({ to: this.address(), body: transfer });
+        return beginCell().store(storeMessage(message)).endCell().toBoc().toString('base64');
     }
 
     address() {
-        return this.#wallet.address;
+        return this.#wallet.contract.address;
     }
 }
@@ -0,0 +1,82 @@
+import { Address, beginCell, Cell, Dictionary, toNano, TupleItem, TupleReader } from '@ton/core';
+
+import { MultisigProvider, NEW_ORDER_VALUE } from './MultisigProvider';
+import { SendProvider } from './SendProvider';
+import { BlueprintTonClient } from '../NetworkProvider';
+import { BufferedUIProvider } from '../../ui/BufferedUIProvider';
+
+const multisig = new Address(0, Buffer.alloc(32, 1));
+const signer = new Address(0, Buffer.alloc(32, 2));
+
+function addressList(addresses: Address[]): TupleItem {
+    const dict = Dictionary.empty(Dictionary.Keys.Uint(8), Dictionary.Values.Address());
+    addresses.forEach((address, i) => dict.set(i, address));
+    return { type: 'cell', cell: beginCell().storeDictDirect(dict).endCell() };
+}
+
+describe('MultisigProvider', () => {
+    let ui: BufferedUIProvider;
+    let sent: { to: Address; value: bigint; body: Cell }[];
+
+    const createProvider = async (nextOrderSeqno: bigint) => {
+        const client = {
+            provider: () => ({
+                get: async () => ({
+                    stack: new TupleReader([
+                        { type: 'int', value: nextOrderSeqno },
+                        { type: 'int', value: 2n },
+                        addressList([signer, new Address(0, Buffer.alloc(32, 3))]),
+                        { type: 'null' },
+                    ]),
+                }),
+            }),
+        } as unknown as BlueprintTonClient;
+        const wallet = {
+            connect: async () => {},
+            address: () => signer,
+            sendTransaction: async (to: Address, value: bigint, body: Cell) => {
+                sent.push({ to, value, body });
+            },
+        } as unknown as SendProvider;
+
+        const provider = new MultisigProvider({ address: multisig, provider: wallet, client, ui, network: 'testnet' });
+        await provider.connect();
+        return provider;
+    };
+
+    const loadOrderSeqno = (body: Cell) => {
+        const slice = body.beginParse();
+        slice.skip(32 + 64);
+        return slice.loadUintBig(256);
+    };
+
+    beforeEach(() => {
+        ui = new BufferedUIProvider();
+        sent = [];
+    });
+
+    it('lets the multisig assign the order seqno', async () => {
+        const provider = await createProvider(5n);
+
+        await provider.sendTransaction(new Address(0, Buffer.alloc(32, 4)), toNano('1'));
+
+        expect(sent).toHaveLength(1);
+        expect(sent[0].to.equals(multisig)).toBe(true);
+        expect(sent[0].value).toBe(NEW_ORDER_VALUE);
+        expect(loadOrderSeqno(sent[0].body)).toBe((1n << 256n) - 1n);
+        expect(ui.messages).toContain('Approvals: 1/2, 1 more required before the order is executed');
+        expect(ui.messages.join('\n')).not.toContain('#5');
+    });
+
+    it('picks unique order seqnos for multisigs with arbitrary seqnos', async () => {
+        const provider = await createProvider(-1n);
+
+        await provider.sendTransaction(new Address(0, Buffer.alloc(32, 4)), toNano('1'));
+        await provider.sendTransaction(new Address(0, Buffer.alloc(32, 4)), toNano('1'));
+
+        const [first, second] = sent.map((message) => loadOrderSeqno(message.body));
+        expect(first).toBeLessThan((1n << 256n) - 1n);
+        expect(second).not.toBe(first);
+        expect(ui.messages.some((message) => message.startsWith(`Created multisig order #${first} `))).toBe(true);
+    });
+});
@@ -0,0 +1,195 @@
+import { randomBytes } from 'crypto';
+
+import { Address, beginCell, Cell, Dictionary, SendMode, StateInit, storeMessageRelaxed, toNano } from '@ton/core';
+
+import { SendProvider, SendProviderMessage, SendProviderOptions } from './SendProvider';
+import { UIProvider } from '../../ui/UIProvider';
+import { BlueprintTonClient } from '../NetworkProvider';
+import { Network } from '../Network';
+import { createInternalMessage } from './wallets';
+
+// Op codes and field sizes of https://github.com/ton-blockchain/multisig-contract-v2
+const OP_NEW_ORDER = 0xf718510f;
+const OP_SEND_MESSAGE = 0xf1381e5b;
+const MAX_ACTIONS = 255;
+// Makes the multisig assign the next order seqno itself, so that orders created concurrently do not collide
+const MAX_ORDER_SEQNO = (1n << 256n) - 1n;
+
+// Covers the deployment of the order contract and its storage until expiration, the excess is returned by the multisig
+export const NEW_ORDER_VALUE = toNano('0.2');
+const DEFAULT_ORDER_LIFETIME = 7 * 24 * 60 * 60;
+
+export type MultisigData = {
+    /**
+     * -1 if the multisig allows arbitrary order seqnos.
+     */
+    nextOrderSeqno: bigint;
+    threshold: number;
+    signers: Address[];
+    proposers: Address[];
+};
+
+type MultisigProviderParams = {
+    address: Address;
+    /**
+     * Provider of the wallet that creates the orders, it must be one of the signers or proposers of the multisig.
+     */
+    provider: SendProvider;
+    client: BlueprintTonClient;
+    ui: UIProvider;
+    network: Network;
+    /**
+     * Order lifetime in seconds.
+     */
+    orderLifetime?: number;
+};
+
+function loadAddressList(cell: Cell | null): Address[] {
+    if (cell === null) {
+        return [];
+    }
+
+    return Dictionary.loadDirect(Dictionary.Keys.Uint(8), Dictionary.Values.Address(), cell).values();
+}
+
+export function packMultisigOrder(messages: SendProviderMessage[], sendMode: SendMode): Cell {
+    if (messages.length === 0 || messages.length > MAX_ACTIONS) {
+        throw new Error(`Multisig order must contain from 1 to ${MAX_ACTIONS} messages, got ${messages.length}`);
+    }
+
+    const actions = Dictionary.empty(Dictionary.Keys.Uint(8), Dictionary.Values.Cell());
+    messages.forEach((message, i) => {
+        actions.set(
+            i,
+            beginCell()
+                .storeUint(OP_SEND_MESSAGE, 32)
+                .storeUint(sendMode, 8)
+                .storeRef(beginCell().store(storeMessageRelaxed(createInternalMessage(message))))
+                .endCell(),
+        );
+    });
+
+    return beginCell().storeDictDirect(actions).endCell();
+}
+
+/**
+ * Sends every transaction as a new order of a multisig-v2 wallet, created by the connected wallet.
+ * The transactions are executed by the multisig once the order collects enough approvals.
+ */
+export class MultisigProvider implements SendProvider {
+    #params: MultisigProviderParams;
+    #isSigner = false;
+    #index = 0;
+
+    constructor(params: MultisigProviderParams) {
+        this.#params = params;
+    }
+
+    async getMultisigData(): Promise<MultisigData> {
+        const { stack } = await this.#params.client.provider(this.#params.address).get('get_multisig_data', []);
+
+        return {
+            nextOrderSeqno: stack.readBigNumber(),
+            threshold: stack.readNumber(),
+            signers: loadAddressList(stack.readCellOpt()),
+            proposers: loadAddressList(stack.readCellOpt()),
+        };
+    }
+
+    #format(address: Address) {
+        return address.toString({ testOnly: this.#params.network === 'testnet' });
+    }
+
+    async connect() {
+        await this.#params.provider.connect();
+        const wallet = this.#params.provider.address();
+        if (wallet === undefined) {
+            throw new Error('Multisig orders can only be created by a wallet with a known address');
+        }
+
+        let data: MultisigData;
+        try {
+            data = await this.getMultisigData();
+        } catch (e) {
+            throw new Error(
+                `Could not read multisig data of ${this.#format(this.#params.address)}, is it an active multisig-v2 wallet? ${(e as Error).message}`,
+            );
+        }
+
+        const signerIndex = data.signers.findIndex((signer) => signer.equals(wallet));
+        const proposerIndex = data.proposers.findIndex((proposer) => proposer.equals(wallet));
+        if (signerIndex >= 0) {
+            this.#isSigner = true;
+            this.#index = signerIndex;
+        } else if (proposerIndex >= 0) {
+            this.#isSigner = false;
+            this.#index = proposerIndex;
+        } else {
+            throw new Error(
+                `Wallet ${this.#format(wallet)} is neither a signer nor a proposer of multisig ${this.#format(this.#params.address)}`,
+            );
+        }
+
+        this.#params.ui.write(
+            `Creating orders in multisig ${this.#format(this.#params.address)} as ${this.#isSigner ? 'signer' : 'proposer'} #${this.#index} (${data.threshold} of ${data.signers.length} signers required)\n`,
+        );
+    }
+
+    async sendTransaction(
+        address: Address,
+        amount: bigint,
+        payload?: Cell,
+        stateInit?: StateInit,
+        options?: SendProviderOptions,
+    ) {
+        return await this.sendBatch(
+            [{ address, amount, payload, stateInit, bounce: options?.bounce }],
+            options?.sendMode,
+        );
+    }
+
+    async sendBatch(messages: SendProviderMessage[], sendMode: SendMode = SendMode.PAY_GAS_SEPARATELY) {
+        const order = packMultisigOrder(messages, sendMode);
+        const { nextOrderSeqno, threshold } = await this.getMultisigData();
+        // Multisigs that allow arbitrary seqnos do not assign them, a random one below MAX_ORDER_SEQNO is unique
+        const orderSeqno = nextOrderSeqno < 0n ? BigInt('0x' + randomBytes(32).toString('hex')) >> 1n : undefined;
+        const expiresAt = Math.floor(Date.now() / 1000) + (this.#params.orderLifetime ?? DEFAULT_ORDER_LIFETIME);
+
+        const body = beginCell()
+            .storeUint(OP_NEW_ORDER, 32)
+            .storeUint(0, 64) // query id
+            .storeUint(orderSeqno ?? MAX_ORDER_SEQNO, 256)
+            .storeBit(this.#isSigner)
+            .storeUint(this.#index, 8)
+            .storeUint(expiresAt, 48)
+            .storeRef(order)
+            .endCell();
+
+        const result = await this.#params.provider.sendTransaction(this.#params.address, NEW_ORDER_VALUE, body);
+
+        // An order created by a signer is approved by it right away
+        const approvals = this.#isSigner ? 1 : 0;
+        this.#params.ui.write(
+            `Created multisig order${orderSeqno === undefined ? '' : ` #${orderSeqno}`} with ${messages.length} ${messages.length === 1 ? 'message' : 'messages'}, expiring at ${new Date(expiresAt * 1000).toISOString()}`,
+        );
+        this.#params.ui.write(
+            `Approvals: ${approvals}/${threshold}, ${Math.max(threshold - approvals, 0)} more required before the order is executed`,
+        );
+
+        return result;
+    }
+
+    /**
+     * Returns the address of the wallet that creates the orders and pays {@link NEW_ORDER_VALUE} for each of them.
+     */
+    orderCreator(): Address | undefined {
+        return this.#params.provider.address();
+    }
+
+    /**
+     * Returns the multisig address, as the transactions are sent on its behalf.
+     */
+    address() {
+        return this.#params.address;
+    }
+}
@@ -0,0 +1,74 @@
+import type { Blockchain, SandboxContract, TreasuryContract } from '@ton/sandbox';
+import { Address, Cell, internal, SendMode, StateInit } from '@ton/core';
+
+import { SendProvider, SendProviderMessage, SendProviderOptions } from './SendProvider';
+import { UIProvider } from '../../ui/UIProvider';
+import { SANDBOX_TREASURY_SEED } from '../sandbox/sandbox';
+
+export class SandboxProvider implements SendProvider {
+    #blockchain: Blockchain;
+    #ui: UIProvider;
+    #treasury?: SandboxContract<TreasuryContract>;
+
+    constructor(blockchain: Blockchain, ui: UIProvider) {
+        this.#blockchain = blockchain;
+        this.#ui = ui;
+    }
+
+    async connect(): Promise<void> {
+        this.#treasury = await this.#blockchain.treasury(SANDBOX_TREASURY_SEED);
+        this.#ui.write(`Connected to sandbox treasury at address: ${this.#treasury.address.toString()}\n`);
+    }
+
+    async sendTransaction(
+        address: Address,
+        amount: bigint,
+        payload?: Cell,
+        stateInit?: StateInit,
+        options?: SendProviderOptions,
+    ) {
+        if (!this.#treasury) {
+            throw new Error('Sandbox treasury is not connected');
+        }
+
+        const result = await this.#treasury.send({
+            to: address,
+            value: amount,
+            body: payload,
+            init: stateInit,
+            bounce: options?.bounce,
+            sendMode: options?.sendMode,
+        });
+
+        this.#ui.write('Sent transaction');
+
+        return result;
+    }
+
+    async sendBatch(messages: SendProviderMessage[], sendMode?: SendMode) {
+        if (!this.#treasury) {
+            throw new Error('Sandbox treasury is not connected');
+        }
+
+        const result = await this.#treasury.sendMessages(
+            messages.map((message) =>
+                internal({
+                    to: message.address,
+                    value: message.amount,
+                    body: message.payload,
+                    init: message.stateInit,
+                    bounce: message.bounce,
+                }),
+            ),
+            sendMode,
+        );
+
+        this.#ui.write(`Sent transaction with ${messages.length} messages`);
+
+        return result;
+    }
+
+    address(): Address | undefined {
+        return this.#treasury?.address;
+    }
+}
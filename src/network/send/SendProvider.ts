@@ -1,7 +1,36 @@
-import { Address, Cell, StateInit } from '@ton/core';
+import { Address, Cell, SendMode, StateInit } from '@ton/core';
+
+export type SendProviderMessage = {
+    address: Address;
+    amount: bigint;
+    payload?: Cell;
+    stateInit?: StateInit;
+    bounce?: boolean;
+};
+
+export type SendProviderOptions = {
+    sendMode?: SendMode;
+    bounce?: boolean;
+};
 
 export interface SendProvider {
     connect(): Promise<void>;
-    sendTransaction(address: Address, amount: bigint, payload?: Cell, stateInit?: StateInit): Promise<unknown>;
+    sendTransaction(
+        address: Address,
+        amount: bigint,
+        payload?: Cell,
+        stateInit?: StateInit,
+        options?: SendProviderOptions,
+    ): Promise<unknown>;
+    sendBatch(messages: SendProviderMessage[], sendMode?: SendMode): Promise<unknown>;
     address(): Address | undefined;
 }
+
+/**
+ * Throws for providers that can only send with the wallet's default `PAY_GAS_SEPARATELY` mode.
+ */
+export function assertDefaultSendMode(sendMode: SendMode | undefined, providerName: string) {
+    if (sendMode !== undefined && sendMode !== SendMode.PAY_GAS_SEPARATELY) {
+        throw new Error(`${providerName} does not support \`sendMode\` other than \`PAY_GAS_SEPARATELY\``);
+    }
+}
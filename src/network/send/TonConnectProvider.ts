@@ -1,8 +1,8 @@
 import qrcode from 'qrcode-terminal';
 import TonConnect, { IStorage, WalletInfo, WalletInfoRemote } from '@tonconnect/sdk';
-import { Address, beginCell, Cell, StateInit, storeStateInit } from '@ton/core';
+import { Address, beginCell, Cell, SendMode, StateInit, storeStateInit } from '@ton/core';
 
-import { SendProvider } from './SendProvider';
+import { assertDefaultSendMode, SendProvider, SendProviderMessage, SendProviderOptions } from './SendProvider';
 import { Storage } from '../storage/Storage';
 import { UIProvider } from '../../ui/UIProvider';
 import { Network } from '../Network';
@@ -100,25 +100,41 @@ export class TonConnectProvider implements SendProvider {
         });
     }
 
-    async sendTransaction(address: Address, amount: bigint, payload?: Cell, stateInit?: StateInit) {
+    async sendTransaction(
+        address: Address,
+        amount: bigint,
+        payload?: Cell,
+        stateInit?: StateInit,
+        options?: SendProviderOptions,
+    ) {
+        return await this.sendBatch(
+            [{ address, amount, payload, stateInit, bounce: options?.bounce }],
+            options?.sendMode,
+        );
+    }
+
+    async sendBatch(messages: SendProviderMessage[], sendMode?: SendMode) {
+        // TON Connect wallets choose the send mode themselves
+        assertDefaultSendMode(sendMode, 'TON Connect');
+
         this.#ui.setActionPrompt('Sending transaction. Approve in your wallet...');
 
         const result = await this.#connector.sendTransaction({
             validUntil: Date.now() + 5 * 60 * 1000,
-            messages: [
-                {
-                    address: address.toString(),
-                    amount: amount.toString(),
-                    payload: payload?.toBoc().toString('base64'),
-                    stateInit: stateInit
-                        ? beginCell().storeWritable(storeStateInit(stateInit)).endCell().toBoc().toString('base64')
-                        : undefined,
-                },
-            ],
+            messages: messages.map((message) => ({
+                address: message.address.toString({ bounceable: message.bounce ?? true }),
+                amount: message.amount.toString(),
+                payload: message.payload?.toBoc().toString('base64'),
+                stateInit: message.stateInit
+                    ? beginCell().storeWritable(storeStateInit(message.stateInit)).endCell().toBoc().toString('base64')
+                    : undefined,
+            })),
         });
 
         this.#ui.clearActionPrompt();
-        this.#ui.write('Sent transaction');
+        this.#ui.write(
+            messages.length === 1 ? 'Sent transaction' : `Sent transaction with ${messages.length} messages`,
+        );
 
         return result;
     }
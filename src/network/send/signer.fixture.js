@@ -0,0 +1,23 @@
+// Stand-in external signer for tests: node signer.fixture.js <hex seed> [bad-signature|fail]
+const { keyPairFromSeed, sign } = require('@ton/crypto');
+
+const [seed, mode] = process.argv.slice(2);
+const keyPair = keyPairFromSeed(Buffer.from(seed, 'hex'));
+
+let input = '';
+process.stdin.on('data', (chunk) => (input += chunk));
+process.stdin.on('end', () => {
+    if (mode === 'fail') {
+        process.exit(2);
+    }
+
+    const request = JSON.parse(input);
+    if (request.type === 'publicKey') {
+        console.log(JSON.stringify({ publicKey: keyPair.publicKey.toString('hex') }));
+        return;
+    }
+
+    // A bad signer signs something other than the requested hash
+    const hash = mode === 'bad-signature' ? Buffer.alloc(32) : Buffer.from(request.hash, 'hex');
+    console.log(JSON.stringify({ signature: sign(hash, keyPair.secretKey).toString('hex') }));
+});
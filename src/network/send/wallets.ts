@@ -1,7 +1,7 @@
 import { Buffer } from 'buffer';
 
 import { WalletContractV4 as WalletContractV4R2 } from '@ton/ton/dist/wallets/WalletContractV4';
-import { Cell, contractAddress } from '@ton/core';
+import { Cell, contractAddress, MessageRelaxed } from '@ton/core';
 import {
     WalletContractV1R1,
     WalletContractV1R2,
@@ -13,6 +13,10 @@ import {
     WalletContractV5R1,
 } from '@ton/ton';
 
+import { HighloadWalletV3 } from './HighloadWalletV3';
+import { SendProviderMessage } from './SendProvider';
+import { Network } from '../Network';
+
 export type WalletVersion =
     | 'v1r1'
     | 'v1r2'
@@ -24,7 +28,8 @@ export type WalletVersion =
     | 'v4'
     | 'v4r1'
     | 'v4r2'
-    | 'v5r1';
+    | 'v5r1'
+    | 'highload-v3';
 
 class WalletContractV4R1 {
     static create(args: { workchain: number; publicKey: Buffer; walletId?: number | null }) {
@@ -59,4 +64,122 @@ export const wallets = {
     v4r1: WalletContractV4R1,
     v4r2: WalletContractV4R2,
     v5r1: WalletContractV5R1,
+    'highload-v3': HighloadWalletV3,
+};
+
+/**
+ * Maximum number of internal messages a single external message to the wallet can carry.
+ */
+export const walletMaxMessages: Record<WalletVersion, number> = {
+    v1r1: 1,
+    v1r2: 1,
+    v1r3: 1,
+    v2r1: 4,
+    v2r2: 4,
+    v3r1: 4,
+    v3r2: 4,
+    v4: 4,
+    v4r1: 4,
+    v4r2: 4,
+    v5r1: 255,
+    // Larger batches are split into chained internal transfers, the limit keeps the external message within size limits
+    'highload-v3': 1000,
 };
+
+export type WalletContractParams = {
+    version: WalletVersion;
+    publicKey: Buffer;
+    network: Network;
+    workchain?: number;
+    walletId?: number;
+    subwalletNumber?: number;
+    /**
+     * Timeout of highload wallets, in seconds.
+     */
+    timeout?: number;
+};
+
+export function createWalletContract(params: WalletContractParams) {
+    if (!(params.version in wallets)) {
+        throw new Error(`Unknown wallet version ${params.version}, expected one of ${Object.keys(wallets).join(', ')}`);
+    }
+
+    if (params.version === 'v5r1') {
+        return wallets[params.version].create({
+            publicKey: params.publicKey,
+            walletId: {
+                networkGlobalId: params.network === 'testnet' ? -3 : -239, // networkGlobalId: -3 for Testnet, -239 for Mainnet
+                context: {
+                    workchain: params.workchain ?? 0,
+                    subwalletNumber: params.subwalletNumber ?? 0,
+                    walletVersion: 'v5r1',
+                },
+            },
+        });
+    }
+
+    if (params.version === 'highload-v3') {
+        return wallets[params.version].create({
+            workchain: params.workchain ?? 0,
+            publicKey: params.publicKey,
+            walletId: params.walletId,
+            timeout: params.timeout,
+        });
+    }
+
+    return wallets[params.version].create({
+        workchain: params.workchain ?? 0,
+        publicKey: params.publicKey,
+        walletId: params.walletId,
+    });
+}
+
+// Default wallet ID of v3 and v4 wallets in the basechain, the workchain is added to it
+const DEFAULT_WALLET_ID = 698983191;
+
+/**
+ * Returns the wallet ID or subwallet number selecting the `subwallet`-th wallet of the version for the same key.
+ */
+export function subwalletParams(
+    version: WalletVersion,
+    workchain: number,
+    subwallet: number,
+): Pick<WalletContractParams, 'walletId' | 'subwalletNumber'> {
+    if (!Number.isInteger(subwallet) || subwallet < 0) {
+        throw new Error(`Subwallet must be a non-negative integer, got ${subwallet}`);
+    }
+
+    switch (version) {
+        case 'v5r1':
+            return { subwalletNumber: subwallet };
+        case 'highload-v3':
+            return { walletId: subwallet };
+        case 'v3r1':
+        case 'v3r2':
+        case 'v4':
+        case 'v4r1':
+        case 'v4r2':
+            return { walletId: DEFAULT_WALLET_ID + workchain + subwallet };
+        default:
+            throw new Error(`Wallet version ${version} does not support subwallets`);
+    }
+}
+
+export function createInternalMessage(message: SendProviderMessage): MessageRelaxed {
+    return {
+        init: message.stateInit,
+        body: message.payload ?? new Cell(),
+        info: {
+            type: 'internal',
+            ihrDisabled: true,
+            ihrFee: 0n,
+            bounce: message.bounce ?? true,
+            bounced: false,
+            dest: message.address,
+            value: { coins: message.amount },
+            forwardFee: 0n,
+            createdAt: 0,
+            createdLt: 0n,
+        },
+    };
+}
@@ -0,0 +1,44 @@
+import { Address, Transaction } from '@ton/core';
+import { TonClient } from '@ton/ton';
+
+import { BlueprintTonClient } from './NetworkProvider';
+import { getNormalizedExtMessageHash } from '../utils';
+
+/**
+ * Returns the last transactions of the account, newest first, at most `limit` of them if given.
+ */
+export async function getLastTransactions(
+    client: BlueprintTonClient,
+    address: Address,
+    limit?: number,
+): Promise<Transaction[]> {
+    if (client instanceof TonClient) {
+        return client.getTransactions(address, { limit: limit ?? 100, archival: true }); // without archival not working with tonclient
+    }
+
+    const provider = client.provider(address);
+    const { last } = await provider.getState();
+    if (!last) {
+        return [];
+    }
+
+    return provider.getTransactions(address, last.lt, last.hash, limit);
+}
+
+/**
+ * Looks for the transaction of the account caused by the external message with the given normalized hash
+ * among its last transactions.
+ */
+export async function findTransactionByExtMessageHash(
+    client: BlueprintTonClient,
+    address: Address,
+    normalizedHash: Buffer,
+): Promise<Transaction | undefined> {
+    const transactions = await getLastTransactions(client, address);
+
+    return transactions.find(
+        (transaction) =>
+            transaction.inMessage?.info.type === 'external-in' &&
+            getNormalizedExtMessageHash(transaction.inMessage).equals(normalizedHash),
+    );
+}
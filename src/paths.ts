@@ -7,6 +7,7 @@ export const WRAPPERS = 'wrappers';
 export const SCRIPTS = 'scripts';
 export const TEMP = 'temp';
 export const BUILD = 'build';
+export const DEPLOYMENTS = 'deployments';
 
 export const COMPILABLES_DIR = path.join(process.cwd(), COMPILABLES);
 export const WRAPPERS_DIR = path.join(process.cwd(), WRAPPERS);
@@ -15,6 +16,7 @@ export const BUILD_DIR = path.join(process.cwd(), BUILD);
 export const TEMP_DIR = path.join(process.cwd(), TEMP);
 export const CONTRACTS_DIR = path.join(process.cwd(), CONTRACTS);
 export const TESTS_DIR = path.join(process.cwd(), TESTS);
+export const DEPLOYMENTS_DIR = path.join(process.cwd(), DEPLOYMENTS);
 
 export const PACKAGE_ENTRY_POINT = path.join(process.cwd(), 'package.ts');
 export const BLUEPRINT_CONFIG = path.join(process.cwd(), 'blueprint.config.ts');
@@ -0,0 +1,35 @@
+import { Address } from '@ton/core';
+
+import { UIProvider } from './UIProvider';
+
+/**
+ * Collects the written messages instead of displaying them, e.g. to print the output of a build at once.
+ * Prompts are not supported.
+ */
+export class BufferedUIProvider implements UIProvider {
+    messages: string[] = [];
+
+    write(message: string): void {
+        this.messages.push(message);
+    }
+
+    async prompt(_message: string): Promise<boolean> {
+        throw new Error('Prompts are not supported by this UI provider');
+    }
+
+    async inputAddress(_message: string, _fallback?: Address): Promise<Address> {
+        throw new Error('Prompts are not supported by this UI provider');
+    }
+
+    async input(_message: string): Promise<string> {
+        throw new Error('Prompts are not supported by this UI provider');
+    }
+
+    async choose<T>(_message: string, _choices: T[], _display: (v: T) => string): Promise<T> {
+        throw new Error('Prompts are not supported by this UI provider');
+    }
+
+    setActionPrompt(_message: string): void {}
+
+    clearActionPrompt(): void {}
+}
@@ -0,0 +1,39 @@
+import { Address } from '@ton/core';
+
+import { UIProvider } from './UIProvider';
+
+/**
+ * Writes the messages to stderr, e.g. to keep stdout for machine-readable output. Prompts are passed to the wrapped
+ * UI provider, action prompts are not displayed.
+ */
+export class StderrUIProvider implements UIProvider {
+    #ui: UIProvider;
+
+    constructor(ui: UIProvider) {
+        this.#ui = ui;
+    }
+
+    write(message: string): void {
+        process.stderr.write(message.endsWith('\n') ? message : message + '\n');
+    }
+
+    prompt(message: string): Promise<boolean> {
+        return this.#ui.prompt(message);
+    }
+
+    inputAddress(message: string, fallback?: Address): Promise<Address> {
+        return this.#ui.inputAddress(message, fallback);
+    }
+
+    input(message: string): Promise<string> {
+        return this.#ui.input(message);
+    }
+
+    choose<T>(message: string, choices: T[], display: (v: T) => string): Promise<T> {
+        return this.#ui.choose(message, choices, display);
+    }
+
+    setActionPrompt(_message: string): void {}
+
+    clearActionPrompt(): void {}
+}
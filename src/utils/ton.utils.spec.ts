@@ -0,0 +1,28 @@
+import { Address, SenderArguments, toNano } from '@ton/core';
+
+import { sendBatch } from './ton.utils';
+
+describe('sendBatch', () => {
+    const messages: SenderArguments[] = [
+        { to: new Address(0, Buffer.alloc(32, 1)), value: toNano('0.05') },
+        { to: new Address(0, Buffer.alloc(32, 2)), value: toNano('0.1') },
+    ];
+
+    it('sends the messages in one transaction if the sender supports it', async () => {
+        const sender = { send: jest.fn(), sendBatch: jest.fn() };
+
+        await sendBatch(sender, messages);
+
+        expect(sender.sendBatch).toHaveBeenCalledWith(messages);
+        expect(sender.send).not.toHaveBeenCalled();
+    });
+
+    it('sends the messages one by one otherwise', async () => {
+        const sent: SenderArguments[] = [];
+        const sender = { send: jest.fn(async (args: SenderArguments) => void sent.push(args)) };
+
+        await sendBatch(sender, messages);
+
+        expect(sent).toEqual(messages);
+    });
+});
@@ -1,4 +1,6 @@
-import { Address, beginCell, Cell, Message, storeMessage } from '@ton/core';
+import { Address, beginCell, Cell, Message, SenderArguments, storeMessage } from '@ton/core';
+
+import type { SenderWithSendResult } from '../network/NetworkProvider';
 
 /**
  * Generates a TON deep link for transfer.
@@ -8,6 +10,7 @@ import { Address, beginCell, Cell, Message, storeMessage } from '@ton/core';
  * @param {Cell} [body] - Optional message body as a Cell.
  * @param {Cell} [stateInit] - Optional state init cell for deploying a contract.
  * @param {boolean} testOnly - Optional flag to determine output address format
+ * @param {boolean} [bounceable=true] - Whether the message should bounce back if the recipient fails to process it
  * @returns {string} A URL deep link that can be opened in TON wallets.
  *
  * @example
@@ -20,11 +23,12 @@ export const tonDeepLink = (
     body?: Cell,
     stateInit?: Cell,
     testOnly?: boolean,
+    bounceable: boolean = true,
 ): string =>
     `ton://transfer/${address.toString({
         testOnly,
         urlSafe: true,
-        bounceable: true,
+        bounceable,
     })}?amount=${amount.toString()}${body ? '&bin=' + body.toBoc().toString('base64url') : ''}${
         stateInit ? '&init=' + stateInit.toBoc().toString('base64url') : ''
     }`;
@@ -128,3 +132,26 @@ export function getNormalizedExtMessageHash(message: Message) {
         .endCell()
         .hash();
 }
+
+/**
+ * Sends the messages in a single wallet transaction if the sender implements `sendBatch`,
+ * one by one with `send` otherwise.
+ *
+ * @param {SenderWithSendResult} sender - The sender, usually `provider.sender()`.
+ * @param {SenderArguments[]} messages - The messages to send.
+ *
+ * @example
+ * await sendBatch(provider.sender(), [
+ *     { to: first, value: toNano('0.05') },
+ *     { to: second, value: toNano('0.05') },
+ * ]);
+ */
+export async function sendBatch(sender: SenderWithSendResult, messages: SenderArguments[]): Promise<void> {
+    if (sender.sendBatch !== undefined) {
+        return await sender.sendBatch(messages);
+    }
+
+    for (const message of messages) {
+        await sender.send(message);
+    }
+}
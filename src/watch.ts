@@ -0,0 +1,151 @@
+import path from 'path';
+import { existsSync, readdirSync, statSync, watch } from 'fs';
+
+import chalk from 'chalk';
+
+import { BuildOpts, compileContract } from './build';
+import { getCompilablesDirectory } from './compile/compile';
+import { buildDependencyGraph, DependencyGraph, findDependentContracts } from './compile/DependencyGraph';
+import { CONTRACTS_DIR, TACT_ROOT_CONFIG } from './paths';
+import { BufferedUIProvider } from './ui/BufferedUIProvider';
+import { UIProvider } from './ui/UIProvider';
+import { findContracts } from './utils';
+
+// Editors often save a file in several writes, they are rebuilt once
+const WATCH_DEBOUNCE_MS = 200;
+
+type WatchListener = (event: string, filename: string | null) => void;
+
+/**
+ * Watches the directory and all its subdirectories. Recursive watching is not available on Linux before Node 20,
+ * every directory is watched separately there, including the ones created later.
+ */
+function watchDirectory(directory: string, listener: WatchListener, signal?: AbortSignal) {
+    try {
+        watch(directory, { recursive: true, signal }, listener);
+        return;
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+            throw new Error(`Could not watch ${directory}: ${(e as Error).message}`);
+        }
+    }
+
+    const watched = new Set<string>();
+    const watchTree = (current: string) => {
+        if (watched.has(current)) {
+            return;
+        }
+        watched.add(current);
+
+        const relative = path.relative(directory, current);
+        watch(current, { signal }, (event, filename) => {
+            if (filename === null) {
+                return;
+            }
+            const changed = path.join(current, filename);
+            if (event === 'rename' && existsSync(changed) && statSync(changed).isDirectory()) {
+                watchTree(changed);
+            }
+            listener(event, path.join(relative, filename));
+        });
+        for (const entry of readdirSync(current, { withFileTypes: true })) {
+            if (entry.isDirectory()) {
+                watchTree(path.join(current, entry.name));
+            }
+        }
+    };
+    watchTree(directory);
+}
+
+export type WatchOpts = BuildOpts & {
+    /**
+     * Stops watching when aborted, otherwise `watchContracts` never returns.
+     */
+    signal?: AbortSignal;
+};
+
+/**
+ * Builds all contracts, then watches the contracts directory, the compilables directory and tact.config.json
+ * and rebuilds the contracts affected by every change according to the dependency graph.
+ */
+export async function watchContracts(ui: UIProvider, opts?: WatchOpts): Promise<void> {
+    let graph: DependencyGraph = { contracts: [], imports: new Map() };
+
+    const build = async (contracts: string[]) => {
+        for (const contract of contracts) {
+            const start = Date.now();
+            try {
+                const { compiled } = await compileContract(contract, new BufferedUIProvider(), opts);
+                const seconds = ((Date.now() - start) / 1000).toFixed(1);
+                ui.write(
+                    compiled
+                        ? chalk.green(`✅ ${contract} built in ${seconds}s`)
+                        : chalk.gray(`✅ ${contract} is up to date`),
+                );
+            } catch (e) {
+                ui.write(chalk.redBright(`❌ ${contract} failed: ${((e as Error).message ?? String(e)).trim()}`));
+            }
+        }
+        // Imports may have changed
+        graph = await buildDependencyGraph();
+    };
+
+    const changed = new Set<string>();
+    const rebuild = async () => {
+        const files = [...changed];
+        changed.clear();
+        for (const file of files) {
+            // Compile files are loaded with require, they have to be loaded again
+            delete require.cache[file];
+        }
+
+        try {
+            const dependents = new Set(files.flatMap((file) => findDependentContracts(graph, file)));
+            const known = new Set(graph.contracts.map((contract) => contract.name));
+            const affected = (await findContracts()).filter(
+                (contract) => dependents.has(contract) || !known.has(contract),
+            );
+            if (affected.length > 0) {
+                ui.write(chalk.gray(`Changed ${files.map((file) => path.relative(process.cwd(), file)).join(', ')}`));
+                await build(affected);
+            }
+        } catch (e) {
+            ui.write(chalk.redBright(`❌ ${(e as Error).message ?? e}`));
+        }
+    };
+
+    let timer: NodeJS.Timeout | undefined;
+    let building = Promise.resolve();
+    const onChange = (directory: string, filter?: string) => (_event: string, filename: string | null) => {
+        if (filename === null || (filter !== undefined && filename !== filter)) {
+            return;
+        }
+        changed.add(path.resolve(directory, filename));
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            building = building.then(rebuild);
+        }, WATCH_DEBOUNCE_MS);
+    };
+
+    await build(await findContracts());
+
+    for (const directory of [CONTRACTS_DIR, await getCompilablesDirectory()]) {
+        if (existsSync(directory)) {
+            watchDirectory(directory, onChange(directory), opts?.signal);
+        }
+    }
+    // tact.config.json is watched through its directory, editors may replace the file on save
+    const tactConfigDirectory = path.dirname(TACT_ROOT_CONFIG);
+    watch(
+        tactConfigDirectory,
+        { signal: opts?.signal },
+        onChange(tactConfigDirectory, path.basename(TACT_ROOT_CONFIG)),
+    );
+
+    ui.write(chalk.gray('👀 Watching for changes, press Ctrl+C to stop'));
+    if (!opts?.signal?.aborted) {
+        await new Promise<void>((resolve) => opts?.signal?.addEventListener('abort', () => resolve()));
+    }
+    clearTimeout(timer);
+    await building;
+}